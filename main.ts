@@ -1,54 +1,273 @@
-import { Plugin, Notice } from 'obsidian';
-import type { MemosPluginSettings } from 'src/models/settings';
-import { DEFAULT_SETTINGS } from 'src/models/settings';
+import { Plugin, Notice, Menu, debounce, moment } from 'obsidian';
+import type { TAbstractFile } from 'obsidian';
+import type { AIModelType, AITask, MemoItem, MemosPluginSettings, ProcessedMemo, ServerProfile } from 'src/models/settings';
+import { DEFAULT_FILTERS, DEFAULT_PROFILE, DEFAULT_PROMPTS, DEFAULT_SETTINGS } from 'src/models/settings';
+import type { PluginState, SyncJob, SyncRunRecord } from 'src/models/state';
+import { DEFAULT_PLUGIN_STATE, DEFAULT_SYNC_STATE, MAX_RETRY_ATTEMPTS } from 'src/models/state';
+import type { SaveOptions, SaveResult } from 'src/services/file-service';
+import type { ReconcileResult } from 'src/services/reconcile-service';
 import { MemosSyncSettingTab } from 'src/ui/settings-tab';
-import { MemosService } from 'src/services/memos-service';
-import { FileService } from 'src/services/file-service';
-import { ContentService } from 'src/services/content-service';
 import { StatusService } from 'src/services/status-service';
+import { SCHEDULER_TICK_INTERVAL, SchedulerService } from 'src/services/scheduler-service';
+import { HistoryService } from 'src/services/history-service';
+import type { SyncOutcome } from 'src/services/scheduler-service';
+import { ProfileServices, isDirectoryOverlapping } from 'src/services/profile-services';
+import { ConflictModal } from 'src/ui/conflict-modal';
+import { ConflictQueueView, VIEW_TYPE_CONFLICTS } from 'src/ui/conflict-view';
+import { ProfileSuggestModal } from 'src/ui/profile-modal';
+import { SyncHistoryView, VIEW_TYPE_SYNC_HISTORY } from 'src/ui/history-view';
+import type { QueuedFailure } from 'src/ui/history-view';
+import { createLimiter } from 'src/utils/concurrency';
 import type { AIService } from 'src/services/ai-service';
-import { createAIService, createDummyAIService } from 'src/services/ai-service';
+import { createAIService, createDummyAIService, parseHeaders } from 'src/services/ai-service';
+import { PromptRegistry } from 'src/services/prompt-registry';
+
+// 同步过程中每写入若干条 memo 保存一次任务日志
+const JOURNAL_SAVE_INTERVAL = 10;
+
+// 写入笔记时最多提前准备（AI 处理、资源预取）的 memo 条数
+const PREPARE_AHEAD = 10;
+
+// 自动核对服务端已归档/删除 memo 的最短间隔（需要拉取服务端全部 memo）
+const RECONCILE_INTERVAL = 24 * 60 * 60 * 1000;
+
+// 旧版本直接保存在设置中的服务器配置
+const LEGACY_PROFILE_KEYS = ['memosApiUrl', 'memosAccessToken', 'memosApiVersion', 'syncDirectory', 'syncFrequency', 'autoSyncInterval', 'filters'];
+
+// 一个服务器的同步结果
+interface ProfileSyncResult {
+    message: string;
+    conflicts: string[];
+}
 
 export default class MemosSyncPlugin extends Plugin {
     settings: MemosPluginSettings;
-    private memosService: MemosService;
-    private fileService: FileService;
-    private contentService: ContentService;
+    // 服务器 ID -> 该服务器的同步状态
+    states: Record<string, PluginState>;
+    // 同步历史，新的在前
+    history: SyncRunRecord[];
+    private profiles: ProfileServices[] = [];
+    private historyService: HistoryService;
     private statusService: StatusService;
+    private scheduler: SchedulerService;
+    private modifiedFiles = new Set<string>();
+    private isSyncing = false;
+    private syncAbortController: AbortController | null = null;
 
     async onload() {
         await this.loadSettings();
-        
+
         // 创建状态栏项
         const statusBarItem = this.addStatusBarItem();
-        this.statusService = new StatusService(statusBarItem);
-        
+        this.statusService = new StatusService(statusBarItem, () => this.cancelSync());
+
+        this.scheduler = new SchedulerService(
+            () => this.settings.profiles,
+            (profileId) => this.getProfileState(profileId).sync.lastSyncTime,
+            (profileId) => this.syncMemos(profileId)
+        );
+
         this.initializeServices();
+        await this.migrateBaseContents();
 
         this.addSettingTab(new MemosSyncSettingTab(this.app, this));
 
-        this.addRibbonIcon('sync', 'Sync Memos', async () => {
-            await this.syncMemos();
+        this.registerView(
+            VIEW_TYPE_CONFLICTS,
+            (leaf) => new ConflictQueueView(leaf, () => this.profiles.map(services => services.conflictService))
+        );
+
+        this.registerView(
+            VIEW_TYPE_SYNC_HISTORY,
+            (leaf) => new SyncHistoryView(leaf, () => this.historyService, () => this.getQueuedFailures())
+        );
+
+        this.addRibbonIcon('sync', 'Sync Memos', async (evt) => {
+            if (this.settings.profiles.length <= 1) {
+                await this.syncMemos();
+                return;
+            }
+            // 配置了多个服务器时，可选择同步全部或其中一个
+            const menu = new Menu();
+            menu.addItem(item => item
+                .setTitle('同步全部服务器')
+                .setIcon('sync')
+                .onClick(() => this.syncMemos()));
+            for (const profile of this.settings.profiles) {
+                menu.addItem(item => item
+                    .setTitle(`同步 ${profile.name}`)
+                    .onClick(() => this.syncMemos(profile.id)));
+            }
+            menu.showAtMouseEvent(evt);
         });
 
-        if (this.settings.syncFrequency === 'auto') {
-            this.initializeAutoSync();
-        }
+        this.addCommand({
+            id: 'sync-memos',
+            name: '同步 Memos（全部服务器）',
+            callback: () => this.syncMemos()
+        });
+
+        this.addCommand({
+            id: 'sync-memos-profile',
+            name: '同步指定的 Memos 服务器',
+            callback: () => {
+                new ProfileSuggestModal(this.app, this.settings.profiles, profile => this.syncMemos(profile.id)).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'sync-recent-memos',
+            name: '同步最近几天更新的 memo',
+            callback: () => this.syncRecentMemos()
+        });
+
+        this.addCommand({
+            id: 'cancel-sync',
+            name: '取消同步',
+            checkCallback: (checking) => {
+                if (!this.isSyncing || !this.syncAbortController) {
+                    return false;
+                }
+                if (!checking) {
+                    this.cancelSync();
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'retry-failed-items',
+            name: '重试同步失败的 memo',
+            callback: () => this.retryFailedItems()
+        });
+
+        this.addCommand({
+            id: 'full-resync',
+            name: '全量重新同步（重置同步游标）',
+            callback: () => this.fullResync()
+        });
+
+        this.addCommand({
+            id: 'regenerate-ai-content',
+            name: '重新生成当前 memo 笔记的 AI 内容',
+            checkCallback: (checking) => {
+                const note = this.getMemoNote(this.app.workspace.getActiveFile());
+                if (!this.settings.ai.enabled || this.settings.outputMode !== 'file' || !note) {
+                    return false;
+                }
+                if (!checking) {
+                    this.regenerateAIContent(note.services, note.memoName);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'generate-weekly-digest',
+            name: '生成本周总结',
+            callback: () => this.generateWeeklyDigest()
+        });
+
+        this.addCommand({
+            id: 'open-sync-log',
+            name: '打开同步历史',
+            callback: () => this.activateView(VIEW_TYPE_SYNC_HISTORY)
+        });
+
+        this.addCommand({
+            id: 'redownload-missing-resources',
+            name: '重新下载缺失的资源文件',
+            callback: () => this.redownloadMissingResources()
+        });
+
+        this.addCommand({
+            id: 'create-memo-from-note',
+            name: '将当前笔记创建为 Memo',
+            checkCallback: (checking) => {
+                const file = this.app.workspace.getActiveFile();
+                const services = this.getProfileForFile(file);
+                if (!this.settings.twoWaySync || !services || !services.changeService.isSyncedFile(file)) {
+                    return false;
+                }
+                if (!checking) {
+                    services.changeService.createMemoFromFile(file)
+                        .then(() => new Notice(`已在 ${services.name} 创建 Memo`))
+                        .catch(error => new Notice(`创建 Memo 失败: ${error.message}`));
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'open-conflict-queue',
+            name: '打开同步冲突队列',
+            callback: () => this.activateView(VIEW_TYPE_CONFLICTS)
+        });
+
+        this.addCommand({
+            id: 'resolve-current-conflict',
+            name: '处理当前笔记的同步冲突',
+            checkCallback: (checking) => {
+                const file = this.app.workspace.getActiveFile();
+                const services = this.getProfileForFile(file);
+                const entry = file && services?.conflictService.getConflicts()
+                    .find(([, conflict]) => conflict.path === file.path);
+                if (!services || !entry) {
+                    return false;
+                }
+                if (!checking) {
+                    new ConflictModal(this.app, services.conflictService, entry[0]).open();
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'reconcile-missing-memos',
+            name: '处理服务端已归档/删除的 memo',
+            callback: () => this.reconcileMissingMemos()
+        });
+
+        this.addCommand({
+            id: 'migrate-note-layout',
+            name: '按当前目录/文件名规则移动已同步的笔记',
+            callback: () => this.migrateLayout()
+        });
+
+        this.addCommand({
+            id: 'rebuild-memo-index',
+            name: '重建 memo 索引',
+            callback: () => this.rebuildIndex()
+        });
+
+        this.registerEvent(this.app.vault.on('modify', (file) => this.onFileModified(file)));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            // 各服务器的索引互相独立，都需要检查
+            const changed = this.profiles.map(services => services.indexService.handleRename(file, oldPath));
+            if (changed.some(Boolean)) {
+                this.saveState();
+            }
+        }));
+        this.registerEvent(this.app.vault.on('delete', async (file) => {
+            const changed = await Promise.all(this.profiles.map(services => services.indexService.handleDelete(file)));
+            if (changed.some(Boolean)) {
+                this.saveState();
+                this.refreshViews(VIEW_TYPE_CONFLICTS);
+            }
+        }));
+
+        this.registerInterval(window.setInterval(() => this.scheduler.tick(), SCHEDULER_TICK_INTERVAL));
+        this.registerDomEvent(window, 'focus', () => this.scheduler.onFocus());
+        this.app.workspace.onLayoutReady(() => this.scheduler.onStartup());
     }
 
     private initializeServices() {
-        this.memosService = new MemosService(
-            this.settings.memosApiUrl,
-            this.settings.memosAccessToken,
-            this.settings.syncLimit
-        );
-
         let aiService: AIService | null = null;
         if (this.settings.ai.enabled) {
             try {
                 // 如果选择了自定义模型，使用自定义模型名称
-                const modelName = this.settings.ai.modelName === 'custom' 
-                    ? this.settings.ai.customModelName 
+                const modelName = this.settings.ai.modelName === 'custom'
+                    ? this.settings.ai.customModelName
                     : this.settings.ai.modelName;
 
                 // 对于 Ollama，使用 ollamaBaseUrl 作为 apiKey
@@ -56,14 +275,23 @@ export default class MemosSyncPlugin extends Plugin {
                     ? this.settings.ai.ollamaBaseUrl
                     : this.settings.ai.apiKey;
 
-                if (this.settings.ai.modelType !== 'ollama' && !apiKey) {
+                // OpenAI 兼容接口可以是不需要密钥的本地服务
+                const keyOptional = this.settings.ai.modelType === 'ollama' || this.settings.ai.modelType === 'openai-compatible';
+                if (!keyOptional && !apiKey) {
                     throw new Error(`未配置 ${this.settings.ai.modelType.toUpperCase()} API 密钥`);
                 }
-                    
+
+                const baseUrls: Partial<Record<AIModelType, string>> = {
+                    claude: this.settings.ai.claudeBaseUrl,
+                    'openai-compatible': this.settings.ai.compatibleBaseUrl
+                };
                 aiService = createAIService(
                     this.settings.ai.modelType,
                     apiKey,
-                    modelName
+                    modelName,
+                    baseUrls[this.settings.ai.modelType],
+                    parseHeaders(this.settings.ai.compatibleHeaders),
+                    new PromptRegistry(this.settings.ai.prompts)
                 );
             } catch (error) {
                 console.error('Failed to initialize AI service:', error);
@@ -73,68 +301,879 @@ export default class MemosSyncPlugin extends Plugin {
             }
         }
 
-        this.contentService = new ContentService(
-            aiService || createDummyAIService(),
-            this.settings.ai.enabled && aiService !== null,
-            this.settings.ai.intelligentSummary,
-            this.settings.ai.autoTags,
-            this.settings.ai.summaryLanguage,
+        this.historyService = new HistoryService(
             this.app.vault,
-            this.settings.syncDirectory
-        );
-        
-        this.fileService = new FileService(
-            this.app.vault,
-            this.settings.syncDirectory,
-            this.memosService
+            this.history,
+            this.settings.historyLimit,
+            this.settings.syncReport,
+            this.settings.syncReportFolder
         );
+
+        // AI 并发上限由所有服务器共用
+        const aiLimiter = createLimiter(this.settings.aiConcurrency);
+        this.profiles = this.settings.profiles.map(profile => new ProfileServices(
+            this.app,
+            this.settings,
+            profile,
+            this.getProfileState(profile.id),
+            this.pluginDirectory,
+            aiService || createDummyAIService(),
+            this.settings.ai.enabled && aiService !== null,
+            aiLimiter,
+            () => this.saveState(),
+            async () => {
+                await this.saveState();
+                this.refreshViews(VIEW_TYPE_CONFLICTS);
+            }
+        ));
+    }
+
+    private get pluginDirectory(): string {
+        return this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    }
+
+    /**
+     * 旧版本把回写基准正文保存在插件数据中，迁移到插件目录下的单独文件
+     */
+    private async migrateBaseContents() {
+        let migrated = false;
+        for (const services of this.profiles) {
+            const state = services.state as PluginState & { baseContents?: Record<string, string> };
+            if (!state.baseContents) {
+                continue;
+            }
+            for (const [memoName, content] of Object.entries(state.baseContents)) {
+                await services.baseContentService.set(memoName, content);
+            }
+            delete state.baseContents;
+            migrated = true;
+        }
+        if (migrated) {
+            await this.saveState();
+        }
+    }
+
+    getProfileState(profileId: string): PluginState {
+        if (!this.states[profileId]) {
+            this.states[profileId] = structuredClone(DEFAULT_PLUGIN_STATE);
+        }
+        const state = this.states[profileId];
+        if (!state.layout) {
+            // 首次加载时，已有笔记按当前规则存放
+            state.layout = {
+                folderPattern: this.settings.folderPattern,
+                fileNamePattern: this.settings.fileNamePattern
+            };
+        }
+        return state;
+    }
+
+    private getProfileForFile(file: TAbstractFile | null): ProfileServices | undefined {
+        return this.profiles.find(services => services.changeService.isSyncedFile(file));
+    }
+
+    // 当前文件是已同步的 memo 笔记时，返回其所属服务器和 memo name
+    private getMemoNote(file: TAbstractFile | null): { services: ProfileServices; memoName: string } | null {
+        const services = this.getProfileForFile(file);
+        const memoName = file && services?.indexService.findByPath(file.path);
+        return services && memoName ? { services, memoName } : null;
     }
 
-    async syncMemos() {
+    get needsLayoutMigration(): boolean {
+        return this.profiles.some(services => services.layoutService.needsMigration);
+    }
+
+    private onFileModified(file: TAbstractFile) {
+        if (!this.settings.twoWaySync || !this.getProfileForFile(file)) {
+            return;
+        }
+        this.modifiedFiles.add(file.path);
+        this.detectModifiedFiles();
+    }
+
+    // 合并短时间内的多次修改；同步过程中写入的文件等同步结束后再检测
+    private detectModifiedFiles = debounce(async () => {
+        if (this.isSyncing) {
+            return;
+        }
+        const paths = Array.from(this.modifiedFiles);
+        this.modifiedFiles.clear();
+        for (const path of paths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            const services = this.getProfileForFile(file);
+            if (services && services.changeService.isSyncedFile(file)) {
+                await services.changeService.detectChange(file);
+            }
+        }
+        await this.saveState();
+    }, 2000, true);
+
+    /**
+     * 同步指定的服务器，未指定时依次同步全部服务器。某个服务器失败不影响其余服务器。
+     * 指定 since 时拉取该时间之后更新的 memo，而不是从同步游标开始。各服务器的结果都会记入自动同步计划
+     */
+    async syncMemos(profileId?: string, since?: string): Promise<SyncOutcome> {
+        if (this.isSyncing) {
+            return 'busy';
+        }
+        this.isSyncing = true;
+        this.syncAbortController = new AbortController();
+        const { signal } = this.syncAbortController;
+        const targets = profileId
+            ? this.profiles.filter(services => services.profile.id === profileId)
+            : this.profiles;
         try {
-            if (!this.settings.memosApiUrl) {
-                throw new Error('未配置 Memos API URL');
+            if (targets.length === 0) {
+                throw new Error('未找到要同步的服务器');
+            }
+            this.checkSyncDirectories();
+
+            const messages: string[] = [];
+            const errors: string[] = [];
+            let firstConflict: [ProfileServices, string] | null = null;
+            for (const services of targets) {
+                const prefix = this.profiles.length > 1 ? `${services.name}：` : '';
+                const run = this.historyService.startRun(services.profile.id, services.name);
+                let status: SyncRunRecord['status'] = 'success';
+                services.resetStats();
+                try {
+                    const result = await this.syncProfile(services, signal, run, since);
+                    if (!result) {
+                        status = 'cancelled';
+                    } else {
+                        messages.push(`${prefix}${result.message}`);
+                        if (!firstConflict && result.conflicts.length > 0) {
+                            firstConflict = [services, result.conflicts[0]];
+                        }
+                    }
+                } catch (error) {
+                    console.error(`同步 ${services.name} 失败:`, error);
+                    status = 'error';
+                    run.errors.push(error.message);
+                    errors.push(`${prefix}${error.message}`);
+                } finally {
+                    run.resourcesDownloaded = services.stats.resourcesDownloaded;
+                    run.aiCalls = services.stats.aiCalls;
+                    await this.historyService.finishRun(run, status);
+                    this.scheduler.recordRun(services.profile.id, status);
+                    this.refreshViews(VIEW_TYPE_SYNC_HISTORY);
+                    await this.saveState();
+                }
+                if (status === 'cancelled') {
+                    return 'cancelled';
+                }
             }
-            if (!this.settings.memosAccessToken) {
-                throw new Error('未配置访问令牌');
+
+            if (errors.length > 0) {
+                this.statusService.setError([...errors, ...messages].join('；'));
+            } else {
+                this.statusService.setSuccess(messages.join('；'));
+            }
+
+            if (firstConflict) {
+                new ConflictModal(this.app, firstConflict[0].conflictService, firstConflict[1]).open();
+            }
+            return errors.length > 0 ? 'error' : 'success';
+        } catch (error) {
+            console.error('同步失败:', error);
+            this.statusService.setError(error.message);
+            for (const services of targets) {
+                this.scheduler.recordRun(services.profile.id, 'error');
             }
+            return 'error';
+        } finally {
+            await this.saveState();
+            this.isSyncing = false;
+            this.syncAbortController = null;
+            if (this.modifiedFiles.size > 0) {
+                this.detectModifiedFiles();
+            }
+        }
+    }
+
+    // 同步目录重叠时，一个服务器会把另一个服务器的笔记当作自己的 memo
+    private checkSyncDirectories() {
+        const profiles = this.settings.profiles;
+        for (let i = 0; i < profiles.length; i++) {
+            for (let j = i + 1; j < profiles.length; j++) {
+                if (isDirectoryOverlapping(profiles[i].syncDirectory, profiles[j].syncDirectory)) {
+                    throw new Error(`服务器「${profiles[i].name}」和「${profiles[j].name}」的同步目录重叠，请设置不同的目录`);
+                }
+            }
+        }
+    }
 
-            this.statusService.startSync(0);
-            const memos = await this.memosService.fetchAllMemos();
-            this.statusService.startSync(memos.length);
+    /**
+     * 同步一个服务器，过程中的统计记入 run。取消时返回 null
+     */
+    private async syncProfile(services: ProfileServices, signal: AbortSignal, run: SyncRunRecord, since?: string): Promise<ProfileSyncResult | null> {
+        const { profile, state, memosService, fileService, contentService, changeService, conflictService, reconcileService } = services;
+        if (!profile.memosApiUrl) {
+            throw new Error('未配置 Memos API URL');
+        }
+        if (!profile.memosAccessToken) {
+            throw new Error('未配置访问令牌');
+        }
 
-            let syncCount = 0;
-            for (const memo of memos) {
-                const processedContent = await this.contentService.processMemoContent(memo);
-                const processedMemo = { ...memo, content: processedContent };
-                await this.fileService.saveMemoToFile(processedMemo);
+        // 上次同步中断时沿用其任务日志，已写入的 memo 不再重复处理
+        if (state.job) {
+            console.log(`继续 ${services.name} 上次未完成的同步，开始于`, state.job.startedAt);
+        } else {
+            state.job = { startedAt: new Date().toISOString(), completed: {}, enrichments: {} };
+        }
+        const job = state.job;
+        const syncStartTime = job.startedAt;
+        const updatedAfter = since || state.sync.lastUpdateTime || undefined;
+        this.statusService.startSync(0);
+
+        if (!services.indexService.isBuilt) {
+            await fileService.rebuildIndex();
+        }
+
+        const newConflicts: string[] = [];
+        const onConflict = async (memoName: string, path: string, remote: MemoItem) => {
+            await conflictService.recordConflict(memoName, path, remote);
+            newConflicts.push(memoName);
+        };
+        if (this.settings.twoWaySync) {
+            await changeService.scanForChanges(state.sync.lastSyncTime);
+            const pushResult = await changeService.pushChanges(onConflict);
+            run.pushed = pushResult.pushed;
+        }
+
+        const { memos, truncated } = await memosService.fetchMemos(
+            updatedAfter,
+            'NORMAL',
+            this.settings.syncLimit,
+            services.filterService
+        );
+        // 达到同步条数上限时还有 memo 未取到，游标不能越过它们
+        let cursorBlocked = truncated;
+        this.statusService.startSync(memos.length);
+
+        // AI 处理和资源下载按各自的并发上限提前进行，写入笔记仍按原顺序逐条完成
+        const isCompleted = (memo: MemoItem) => job.completed[memo.name] === memo.updateTime;
+        // 写入结束（完成、出错或取消）时中止提前准备的任务，不再改动任务日志和资源记录
+        const pipeline = new AbortController();
+        const abortPipeline = () => pipeline.abort();
+        signal.addEventListener('abort', abortPipeline);
+        const prepared = new Map<number, Promise<ProcessedMemo>>();
+        let nextToPrepare = 0;
+        const prepareAhead = (writing: number) => {
+            for (; nextToPrepare < memos.length && nextToPrepare <= writing + PREPARE_AHEAD; nextToPrepare++) {
+                const memo = memos[nextToPrepare];
+                if (isCompleted(memo) || this.isMemoBlocked(services, memo.name)) {
+                    continue;
+                }
+                const task = this.prepareMemo(services, memo, job, pipeline.signal, { force: memo.name in state.failures });
+                // 中止后不再等待的任务，其错误不再上报
+                task.catch(() => undefined);
+                prepared.set(nextToPrepare, task);
+            }
+        };
+
+        let syncCount = 0;
+        try {
+            for (let i = 0; i < memos.length && !signal.aborted; i++) {
+                prepareAhead(i);
+                const memo = memos[i];
+                const task = prepared.get(i);
+                prepared.delete(i);
                 syncCount++;
+                if (isCompleted(memo)) {
+                    run.skipped++;
+                    this.statusService.updateProgress(syncCount);
+                    continue;
+                }
+                if (!task) {
+                    // 本地修改尚未回写，不能用服务端内容覆盖
+                    if (!conflictService.hasConflict(memo.name)) {
+                        await onConflict(memo.name, state.pendingChanges[memo.name], memo);
+                    }
+                    this.statusService.updateProgress(syncCount);
+                    continue;
+                }
+
+                // 单条 memo 失败时记入失败队列，继续同步其余 memo
+                try {
+                    const result = await this.saveMemo(services, run, memo.name, await task, { force: memo.name in state.failures });
+                    if (this.settings.twoWaySync && this.settings.outputMode === 'file') {
+                        if (result.status !== 'skipped') {
+                            await changeService.recordSyncedContent(memo.name, result.path, memo.updateTime);
+                        } else if (!(await changeService.hasBaseContent(memo.name))) {
+                            // 跳过的笔记可能还是旧版本，不能把服务端的 updateTime 记为它的基准
+                            await changeService.recordExistingContent(memo, result.path);
+                        }
+                    }
+                    job.completed[memo.name] = memo.updateTime;
+                    delete job.enrichments[memo.name];
+                } catch (error) {
+                    if (signal.aborted) {
+                        break;
+                    }
+                    this.recordFailure(services, run, memo.name, error);
+                }
+                if (syncCount % JOURNAL_SAVE_INTERVAL === 0) {
+                    await this.saveState();
+                }
                 this.statusService.updateProgress(syncCount);
             }
+        } finally {
+            pipeline.abort();
+            signal.removeEventListener('abort', abortPipeline);
+        }
+
+        run.conflicts = newConflicts.length;
+        if (signal.aborted) {
+            const completedCount = Object.keys(job.completed).length;
+            this.statusService.setCancelled(`同步已取消，${services.name} 已写入 ${completedCount} 条，下次同步将从中断处继续`);
+            return null;
+        }
 
-            if (this.settings.ai.enabled && this.settings.ai.weeklyDigest) {
-                this.statusService.updateProgress(syncCount, '正在生成每周总结...');
-                await this.contentService.generateWeeklyDigest(memos);
+        // 本次已处理过的 memo 不再从失败队列重试
+        const handled = new Set(memos.map(memo => memo.name));
+        if (this.settings.syncArchivedMemos && this.settings.outputMode === 'file') {
+            const archived = await memosService.fetchMemos(
+                updatedAfter,
+                'ARCHIVED',
+                this.settings.syncLimit,
+                services.filterService
+            );
+            cursorBlocked = cursorBlocked || archived.truncated;
+            for (const memo of archived.memos) {
+                handled.add(memo.name);
+                try {
+                    const options: SaveOptions = { directory: reconcileService.archiveDirectory, force: memo.name in state.failures };
+                    // 不会写入的 memo 不调用 AI
+                    const processedMemo = await services.fileService.isSaveSkipped(memo, options)
+                        ? contentService.applyEnrichment(memo, contentService.splitMemo(memo))
+                        : await contentService.processMemo(memo);
+                    await this.saveMemo(services, run, memo.name, processedMemo, options);
+                } catch (error) {
+                    this.recordFailure(services, run, memo.name, error);
+                }
             }
+        }
+
+        const retried = await this.retryFailed(services, run, signal, handled);
+
+        if (this.settings.ai.enabled && this.settings.ai.weeklyDigest) {
+            this.statusService.updateProgress(syncCount, '正在生成每周总结...');
+            await contentService.generateWeeklyDigest(memos);
+        }
+
+        // 只拉取了 since 之后的 memo 时，游标不能越过 since 之前尚未拉取的修改
+        const cursorReachesSince = !since
+            || (!!state.sync.lastUpdateTime && new Date(since).getTime() <= new Date(state.sync.lastUpdateTime).getTime());
+        if (cursorReachesSince) {
+            this.updateSyncCursor(state, cursorBlocked ? [] : memos, syncStartTime);
+        }
+        state.job = null;
+        await this.saveState();
 
-            this.statusService.setSuccess(`同步完成，共同步 ${syncCount} 条记录`);
+        const reconcileResult = await this.reconcileIfDue(services, run);
+
+        const updatedMessage = run.updated > 0 ? `，其中更新 ${run.updated} 条` : '';
+        const pushedMessage = run.pushed > 0 ? `，回写 ${run.pushed} 条` : '';
+        const conflictMessage = newConflicts.length > 0 ? `，${newConflicts.length} 条存在冲突` : '';
+        const missingCount = reconcileResult ? reconcileResult.archived + reconcileResult.deleted : 0;
+        const missingMessage = missingCount > 0
+            ? `，处理 ${missingCount} 条已归档/删除的记录`
+            : reconcileResult?.skippedReason ? `，${reconcileResult.skippedReason}` : '';
+        const retriedMessage = retried > 0 ? `，重试成功 ${retried} 条` : '';
+        const failedMessage = run.failed > 0 ? `，${run.failed} 条失败已加入重试队列` : '';
+        const limitMessage = cursorBlocked ? `，已达到同步条数上限（${this.settings.syncLimit}），请调大后再同步其余 memo` : '';
+        return {
+            message: `同步完成，共同步 ${syncCount} 条记录${updatedMessage}${pushedMessage}${conflictMessage}${missingMessage}${retriedMessage}${failedMessage}${limitMessage}`,
+            conflicts: newConflicts
+        };
+    }
+
+    /**
+     * 距上次核对超过间隔时处理服务端已归档/删除的 memo。核对失败不影响本次同步结果
+     */
+    private async reconcileIfDue(services: ProfileServices, run: SyncRunRecord): Promise<ReconcileResult | null> {
+        const { state } = services;
+        if (this.settings.missingMemoPolicy === 'keep'
+            || (state.reconciledAt && Date.now() - new Date(state.reconciledAt).getTime() < RECONCILE_INTERVAL)) {
+            return null;
+        }
+        try {
+            const result = await services.reconcileService.reconcile();
+            state.reconciledAt = new Date().toISOString();
+            return result;
         } catch (error) {
-            console.error('同步失败:', error);
-            this.statusService.setError(error.message);
+            console.error(`处理 ${services.name} 已归档/删除的 memo 失败:`, error);
+            run.errors.push(`处理已归档/删除的 memo 失败: ${error.message}`);
+            return null;
         }
     }
 
+    // 本地修改尚未回写或存在冲突的 memo 不能用服务端内容覆盖
+    private isMemoBlocked(services: ProfileServices, memoName: string): boolean {
+        return this.settings.twoWaySync
+            && (services.conflictService.hasConflict(memoName) || services.changeService.hasPendingChange(memoName));
+    }
+
+    /**
+     * 写入一条 memo 并记入本次同步。有资源下载失败时笔记照常写入，memo 留在失败队列中等待重试
+     */
+    private async saveMemo(services: ProfileServices, run: SyncRunRecord, memoName: string, processedMemo: ProcessedMemo, options: SaveOptions = {}): Promise<SaveResult> {
+        const result = await services.fileService.saveMemoToFile(processedMemo, options);
+        this.historyService.recordSave(run, memoName, result, processedMemo.enrichment.newTags);
+        if (result.failedResources && result.failedResources.length > 0) {
+            this.addFailure(services.state, memoName, result.failedResources.join('；'));
+        } else if (result.status !== 'skipped') {
+            delete services.state.failures[memoName];
+        }
+        return result;
+    }
+
+    private recordFailure(services: ProfileServices, run: SyncRunRecord, memoName: string, error: Error) {
+        console.error(`同步 memo ${memoName} 失败:`, error);
+        this.historyService.recordFailure(run, memoName, services.state.memoIndex[memoName]?.path ?? '', error.message);
+        this.addFailure(services.state, memoName, error.message);
+    }
+
+    // 各服务器失败队列中的 memo，供同步历史视图显示
+    private getQueuedFailures(): QueuedFailure[] {
+        return this.profiles.flatMap(services => Object.entries(services.state.failures).map(([memoName, failure]) => ({
+            profileName: services.name,
+            memoName,
+            path: services.state.memoIndex[memoName]?.path ?? '',
+            failure
+        })));
+    }
+
+    private addFailure(state: PluginState, memoName: string, reason: string) {
+        const attempts = (state.failures[memoName]?.attempts ?? 0) + 1;
+        state.failures[memoName] = { reason, failedAt: new Date().toISOString(), attempts };
+    }
+
+    /**
+     * 从服务端重新获取失败队列中的 memo 并强制写入，跳过 exclude 中的 memo。
+     * 自动重试跳过已达到重试次数上限的 memo，服务端已删除的 memo 移出队列。返回重试成功的条数
+     */
+    private async retryFailed(services: ProfileServices, run: SyncRunRecord, signal: AbortSignal, exclude: Set<string> = new Set(), includeExhausted = false): Promise<number> {
+        const { state, memosService, contentService, changeService, reconcileService } = services;
+        const syncArchived = this.settings.syncArchivedMemos && this.settings.outputMode === 'file';
+        let retried = 0;
+        for (const memoName of Object.keys(state.failures)) {
+            if (signal.aborted) {
+                break;
+            }
+            if (exclude.has(memoName) || this.isMemoBlocked(services, memoName)) {
+                continue;
+            }
+            if (!includeExhausted && state.failures[memoName].attempts >= MAX_RETRY_ATTEMPTS) {
+                continue;
+            }
+            try {
+                const memo = await memosService.findMemo(memoName);
+                if (!memo) {
+                    console.log(`Memo ${memoName} 已在服务端删除，移出失败队列`);
+                    delete state.failures[memoName];
+                    continue;
+                }
+                const isArchived = memo.rowStatus === 'ARCHIVED';
+                if (isArchived && !syncArchived) {
+                    // 已归档且不同步归档的 memo 不再重试
+                    delete state.failures[memoName];
+                    continue;
+                }
+                const result = await this.saveMemo(
+                    services,
+                    run,
+                    memoName,
+                    await contentService.processMemo(memo, signal),
+                    isArchived ? { force: true, directory: reconcileService.archiveDirectory } : { force: true }
+                );
+                if (!isArchived && this.settings.twoWaySync && this.settings.outputMode === 'file') {
+                    await changeService.recordSyncedContent(memo.name, result.path, memo.updateTime);
+                }
+                if (!state.failures[memoName]) {
+                    retried++;
+                }
+            } catch (error) {
+                if (signal.aborted) {
+                    break;
+                }
+                this.recordFailure(services, run, memoName, error);
+            }
+        }
+        return retried;
+    }
+
+    /**
+     * 只重试失败队列中的 memo，不拉取其他 memo，也不移动同步游标
+     */
+    async retryFailedItems() {
+        if (this.isSyncing) {
+            new Notice('正在同步，请稍后再试');
+            return;
+        }
+        const targets = this.profiles.filter(services => Object.keys(services.state.failures).length > 0);
+        if (targets.length === 0) {
+            new Notice('没有同步失败的 memo');
+            return;
+        }
+        this.isSyncing = true;
+        this.syncAbortController = new AbortController();
+        const { signal } = this.syncAbortController;
+        let retried = 0;
+        let remaining = 0;
+        try {
+            for (const services of targets) {
+                const run = this.historyService.startRun(services.profile.id, services.name);
+                let status: SyncRunRecord['status'] = 'success';
+                services.resetStats();
+                try {
+                    retried += await this.retryFailed(services, run, signal, new Set(), true);
+                    if (signal.aborted) {
+                        status = 'cancelled';
+                    }
+                } catch (error) {
+                    console.error(`重试 ${services.name} 失败的 memo 时出错:`, error);
+                    status = 'error';
+                    run.errors.push(error.message);
+                } finally {
+                    run.resourcesDownloaded = services.stats.resourcesDownloaded;
+                    run.aiCalls = services.stats.aiCalls;
+                    await this.historyService.finishRun(run, status);
+                    this.refreshViews(VIEW_TYPE_SYNC_HISTORY);
+                }
+                remaining += Object.keys(services.state.failures).length;
+            }
+            const remainingMessage = remaining > 0 ? `，仍有 ${remaining} 条失败` : '';
+            new Notice(`已重试成功 ${retried} 条 memo${remainingMessage}`);
+        } finally {
+            await this.saveState();
+            this.isSyncing = false;
+            this.syncAbortController = null;
+        }
+    }
+
+    async syncRecentMemos() {
+        const since = new Date(Date.now() - this.settings.recentSyncDays * 24 * 60 * 60 * 1000);
+        await this.syncMemos(undefined, since.toISOString());
+    }
+
+    // AI 处理结果记入任务日志，同步中断后不必重新请求。不会写入的 memo 不调用 AI，也不下载资源
+    private async prepareMemo(services: ProfileServices, memo: MemoItem, job: SyncJob, signal: AbortSignal, options: SaveOptions): Promise<ProcessedMemo> {
+        if (await services.fileService.isSaveSkipped(memo, options)) {
+            return services.contentService.applyEnrichment(memo, services.contentService.splitMemo(memo));
+        }
+        const cached = job.enrichments[memo.name];
+        const processedMemo = cached && cached.updateTime === memo.updateTime
+            ? services.contentService.applyEnrichment(memo, cached.enrichment)
+            : await services.contentService.processMemo(memo, signal);
+        // 中止后不再改动任务日志，也不再下载资源
+        if (signal.aborted) {
+            throw new Error('同步已取消');
+        }
+        job.enrichments[memo.name] = { updateTime: memo.updateTime, enrichment: processedMemo.enrichment };
+        await services.fileService.prefetchResources(processedMemo, options);
+        return processedMemo;
+    }
+
+    /**
+     * 从服务端重新获取 memo 并重新生成 AI 摘要和标签，覆盖当前笔记
+     */
+    async regenerateAIContent(services: ProfileServices, memoName: string) {
+        if (this.isSyncing) {
+            new Notice('正在同步，请稍后再试');
+            return;
+        }
+        if (services.changeService.hasPendingChange(memoName)) {
+            new Notice('该笔记有尚未回写到 Memos 的修改，请先同步');
+            return;
+        }
+        this.isSyncing = true;
+        try {
+            const memo = await services.memosService.getMemo(memoName);
+            const result = await services.fileService.saveMemoToFile(
+                await services.contentService.processMemo(memo),
+                { force: true }
+            );
+            if (this.settings.twoWaySync) {
+                await services.changeService.recordSyncedContent(memo.name, result.path, memo.updateTime);
+            }
+            new Notice('已重新生成 AI 内容');
+        } catch (error) {
+            console.error('重新生成 AI 内容失败:', error);
+            new Notice(`重新生成 AI 内容失败: ${error.message}`, 5000);
+        } finally {
+            await this.saveState();
+            this.isSyncing = false;
+        }
+    }
+
+    /**
+     * 用本周创建的 memo 生成每周总结，已有的总结会被覆盖
+     */
+    async generateWeeklyDigest() {
+        if (!this.settings.ai.enabled) {
+            new Notice('请先在设置中启用 AI 功能');
+            return;
+        }
+        const weekStart = moment().startOf('isoWeek');
+        try {
+            let generated = 0;
+            for (const services of this.profiles) {
+                const memos = await services.memosService.fetchAllMemos(
+                    weekStart.toISOString(),
+                    'NORMAL',
+                    this.settings.syncLimit,
+                    services.filterService
+                );
+                const weekMemos = memos.filter(memo => moment(memo.createTime).isSameOrAfter(weekStart));
+                generated += await services.contentService.generateWeeklyDigest(weekMemos, true);
+            }
+            new Notice(generated > 0 ? `已生成 ${generated} 篇本周总结` : '本周没有可以总结的 memo');
+        } catch (error) {
+            console.error('生成本周总结失败:', error);
+            new Notice(`生成本周总结失败: ${error.message}`, 5000);
+        }
+    }
+
+    /**
+     * 重新下载已同步过但本地文件已被删除的资源
+     */
+    async redownloadMissingResources() {
+        if (this.isSyncing) {
+            new Notice('正在同步，请稍后再试');
+            return;
+        }
+        this.isSyncing = true;
+        try {
+            let restored = 0;
+            let failed = 0;
+            for (const services of this.profiles) {
+                const [memos, archivedMemos] = await Promise.all([
+                    services.memosService.fetchAllMemos(undefined, 'NORMAL', this.settings.syncLimit, services.filterService),
+                    services.memosService.fetchAllMemos(undefined, 'ARCHIVED', this.settings.syncLimit, services.filterService)
+                ]);
+                const resources = [...memos, ...archivedMemos].flatMap(memo => memo.resources);
+                const result = await services.resourceService.restoreMissing(resources);
+                restored += result.restored;
+                failed += result.failed;
+            }
+            const failedMessage = failed > 0 ? `，${failed} 个下载失败` : '';
+            new Notice(restored + failed > 0 ? `已重新下载 ${restored} 个资源文件${failedMessage}` : '没有缺失的资源文件');
+        } catch (error) {
+            console.error('重新下载资源失败:', error);
+            new Notice(`重新下载资源失败: ${error.message}`, 5000);
+        } finally {
+            await this.saveState();
+            this.isSyncing = false;
+        }
+    }
+
+    cancelSync() {
+        if (!this.syncAbortController || this.syncAbortController.signal.aborted) {
+            return;
+        }
+        this.syncAbortController.abort();
+        this.statusService.setCancelling();
+    }
+
+    async activateView(viewType: string) {
+        const existing = this.app.workspace.getLeavesOfType(viewType);
+        if (existing.length > 0) {
+            this.app.workspace.revealLeaf(existing[0]);
+            return;
+        }
+        const leaf = this.app.workspace.getRightLeaf(false);
+        if (leaf) {
+            await leaf.setViewState({ type: viewType, active: true });
+            this.app.workspace.revealLeaf(leaf);
+        }
+    }
+
+    private refreshViews(viewType: string) {
+        for (const leaf of this.app.workspace.getLeavesOfType(viewType)) {
+            if (leaf.view instanceof ConflictQueueView || leaf.view instanceof SyncHistoryView) {
+                leaf.view.render();
+            }
+        }
+    }
+
+    async reconcileMissingMemos() {
+        if (this.settings.missingMemoPolicy === 'keep') {
+            new Notice('当前设置为保留已归档/删除 memo 的笔记，无需处理');
+            return;
+        }
+        try {
+            let archived = 0;
+            let deleted = 0;
+            const skipped: string[] = [];
+            for (const services of this.profiles) {
+                const result = await services.reconcileService.reconcile();
+                services.state.reconciledAt = new Date().toISOString();
+                archived += result.archived;
+                deleted += result.deleted;
+                if (result.skippedReason) {
+                    skipped.push(this.profiles.length > 1 ? `${services.name}：${result.skippedReason}` : result.skippedReason);
+                }
+            }
+            const skippedMessage = skipped.length > 0 ? `。${skipped.join('；')}` : '';
+            new Notice(`已处理 ${archived} 条已归档、${deleted} 条已删除的 memo${skippedMessage}`, skipped.length > 0 ? 8000 : undefined);
+        } catch (error) {
+            console.error('处理已归档/删除的 memo 失败:', error);
+            new Notice(`处理失败: ${error.message}`, 5000);
+        } finally {
+            await this.saveState();
+        }
+    }
+
+    async rebuildIndex() {
+        try {
+            let count = 0;
+            for (const services of this.profiles) {
+                count += await services.fileService.rebuildIndex();
+            }
+            await this.saveState();
+            new Notice(`memo 索引已重建，共 ${count} 条`);
+        } catch (error) {
+            console.error('重建 memo 索引失败:', error);
+            new Notice(`重建索引失败: ${error.message}`, 5000);
+        }
+    }
+
+    async migrateLayout() {
+        if (this.isSyncing) {
+            new Notice('正在同步，请稍后再试');
+            return;
+        }
+        this.isSyncing = true;
+        try {
+            let moved = 0;
+            let skipped = 0;
+            let failed = 0;
+            for (const services of this.profiles) {
+                if (!services.indexService.isBuilt) {
+                    await services.fileService.rebuildIndex();
+                }
+                const result = await services.layoutService.migrate();
+                moved += result.moved;
+                skipped += result.skipped;
+                failed += result.failed;
+            }
+            const skippedMessage = skipped > 0 ? `，${skipped} 条因目标已存在而跳过` : '';
+            const failedMessage = failed > 0 ? `，${failed} 条失败` : '';
+            new Notice(`已移动 ${moved} 条笔记${skippedMessage}${failedMessage}`);
+        } catch (error) {
+            console.error('移动已同步的笔记失败:', error);
+            new Notice(`移动笔记失败: ${error.message}`, 5000);
+        } finally {
+            await this.saveState();
+            this.isSyncing = false;
+        }
+    }
+
+    async fullResync(profileId?: string) {
+        for (const profile of this.settings.profiles) {
+            if (!profileId || profile.id === profileId) {
+                const state = this.getProfileState(profile.id);
+                state.sync = { ...DEFAULT_SYNC_STATE };
+                state.job = null;
+            }
+        }
+        await this.saveState();
+        await this.syncMemos(profileId);
+    }
+
+    private updateSyncCursor(state: PluginState, memos: MemoItem[], syncStartTime: string) {
+        let lastUpdateTime = state.sync.lastUpdateTime;
+        for (const memo of memos) {
+            if (!lastUpdateTime || new Date(memo.updateTime).getTime() > new Date(lastUpdateTime).getTime()) {
+                lastUpdateTime = memo.updateTime;
+            }
+        }
+        state.sync = { lastSyncTime: syncStartTime, lastUpdateTime };
+    }
+
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const { state, states, history, ...settings } = (await this.loadData()) || {};
+        // 旧版本只有一个服务器，其配置和同步状态迁移为默认服务器
+        const legacyProfile: Record<string, unknown> = {};
+        for (const key of LEGACY_PROFILE_KEYS) {
+            if (key in settings) {
+                legacyProfile[key] = settings[key];
+                delete settings[key];
+            }
+        }
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+        this.settings.ai = Object.assign({}, DEFAULT_SETTINGS.ai, this.settings.ai);
+        // 每个任务单独合并默认值，避免编辑时改动默认提示词
+        const prompts = this.settings.ai.prompts || {};
+        this.settings.ai.prompts = { ...DEFAULT_PROMPTS };
+        for (const task of Object.keys(DEFAULT_PROMPTS) as AITask[]) {
+            this.settings.ai.prompts[task] = Object.assign({}, DEFAULT_PROMPTS[task], prompts[task]);
+        }
+        this.states = states || {};
+        this.history = Array.isArray(history) ? history : [];
+        if (!Array.isArray(settings.profiles)) {
+            this.settings.profiles = [{ ...DEFAULT_PROFILE, ...legacyProfile }];
+            if (state) {
+                this.states[DEFAULT_PROFILE.id] = state;
+            }
+        }
+        this.settings.profiles = this.settings.profiles.map(profile => ({
+            ...DEFAULT_PROFILE,
+            ...profile,
+            filters: Object.assign({}, DEFAULT_FILTERS, profile.filters)
+        }));
+        for (const profileId of Object.keys(this.states)) {
+            this.states[profileId] = Object.assign(structuredClone(DEFAULT_PLUGIN_STATE), this.states[profileId]);
+        }
+    }
+
+    /**
+     * 添加服务器，默认的同步目录与已有服务器不同
+     */
+    async addProfile(): Promise<ServerProfile> {
+        const number = this.settings.profiles.length + 1;
+        const profile: ServerProfile = {
+            ...DEFAULT_PROFILE,
+            id: Date.now().toString(36),
+            name: `服务器 ${number}`,
+            syncDirectory: `memos-${number}`,
+            filters: structuredClone(DEFAULT_FILTERS)
+        };
+        this.settings.profiles.push(profile);
+        await this.saveSettings();
+        return profile;
+    }
+
+    /**
+     * 删除服务器及其同步状态，已同步的笔记保留在原处
+     */
+    async removeProfile(profileId: string) {
+        await this.profiles.find(services => services.profile.id === profileId)?.baseContentService.clear();
+        this.settings.profiles = this.settings.profiles.filter(profile => profile.id !== profileId);
+        delete this.states[profileId];
+        await this.saveSettings();
     }
 
     async saveSettings() {
-        await this.saveData(this.settings);
+        await this.persistData();
         this.initializeServices();
+        this.scheduler.reschedule();
+    }
+
+    async saveState() {
+        await this.persistData();
+    }
+
+    /**
+     * 只保存提示词设置。PromptRegistry 直接读取 settings.ai.prompts，修改立即生效，无需重建 AI 服务
+     */
+    async savePromptSettings() {
+        await this.persistData();
     }
 
-    private initializeAutoSync() {
-        const interval = this.settings.autoSyncInterval * 60 * 1000;
-        setInterval(() => this.syncMemos(), interval);
+    private async persistData() {
+        await this.saveData({ ...this.settings, states: this.states, history: this.history });
     }
-}
\ No newline at end of file
+}
@@ -1,5 +1,62 @@
 // AI 模型类型
-export type AIModelType = 'openai' | 'gemini' | 'claude' | 'ollama';
+export type AIModelType = 'openai' | 'openai-compatible' | 'gemini' | 'claude' | 'ollama';
+
+// 服务端已归档/删除的 memo 对应笔记的处理方式：保留、标记、移入归档目录、移入回收站
+export type MissingMemoPolicy = 'keep' | 'mark' | 'move' | 'trash';
+
+// 元数据写入方式：笔记末尾的 callout、YAML frontmatter 或两者都写
+export type MetadataFormat = 'callout' | 'frontmatter' | 'both';
+
+// 输出方式：每条 memo 一个笔记，或追加到当天的日记
+export type OutputMode = 'file' | 'daily';
+
+// 资源文件存放位置：笔记所在目录的 resources 子目录、统一的附件目录或 Obsidian 的附件设置
+export type ResourceLocation = 'note' | 'folder' | 'vault';
+
+// 笔记中引用资源的方式：相对路径的 Markdown 链接或 wikilink
+export type ResourceLinkStyle = 'markdown' | 'wikilink';
+
+// Memos 服务端版本：自动检测或手动指定
+export type MemosApiVersion = 'auto' | '0.22' | '0.25';
+
+export type SyncFrequency = 'manual' | 'auto' | 'cron';
+
+// 同步筛选条件，留空的条件不生效
+export interface SyncFilters {
+    includeTags: string[];
+    excludeTags: string[];
+    visibilities: string[];
+    creators: string[];
+    pinned: 'any' | 'pinned' | 'unpinned';
+    contentPattern: string;
+    excludeContentPattern: string;
+    // YYYY-MM-DD，包含当天
+    createdAfter: string;
+    createdBefore: string;
+}
+
+// 一个 Memos 服务器的连接、同步目录、筛选条件与同步计划
+export interface ServerProfile {
+    id: string;
+    name: string;
+    memosApiUrl: string;
+    memosAccessToken: string;
+    memosApiVersion: MemosApiVersion;
+    syncDirectory: string;
+    // 手动、固定间隔或按 cron 表达式同步
+    syncFrequency: SyncFrequency;
+    autoSyncInterval: number;
+    cronExpression: string;
+    syncOnStartup: boolean;
+    syncOnFocus: boolean;
+    filters: SyncFilters;
+}
+
+// 笔记的目录与文件名规则（相对同步目录，不含扩展名）
+export interface NoteLayout {
+    folderPattern: string;
+    fileNamePattern: string;
+}
 
 // Memo 项目接口
 export interface MemoItem {
@@ -24,6 +81,51 @@ export interface MemoItem {
     tags: string[];
 }
 
+export type MemoResource = MemoItem['resources'][number];
+
+// 处理 memo 时得到的结构化内容（标题、正文与 AI 生成的摘要、标签）
+export interface MemoEnrichment {
+    title: string | null;
+    body: string;
+    summary: string;
+    aiTags: string[];
+    // AI 生成的、库中原本没有的标签
+    newTags?: string[];
+}
+
+// content 为默认布局下处理后的内容
+export interface ProcessedMemo extends MemoItem {
+    enrichment: MemoEnrichment;
+}
+
+// AI 任务：内容摘要、智能标签、每周总结
+export type AITask = 'summary' | 'tags' | 'weeklyDigest';
+
+// 一个 AI 任务的提示词模板与生成参数
+export interface PromptSettings {
+    template: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+export const DEFAULT_PROMPTS: Record<AITask, PromptSettings> = {
+    summary: {
+        template: '请用{{language}}总结以下内容的要点：\n\n{{content}}',
+        temperature: 0.7,
+        maxTokens: 500
+    },
+    tags: {
+        template: '请为以下内容生成3-5个相关标签。{{#if tags_existing}}\n已有的标签：{{tags_existing}}。请优先从已有标签中选择，只有都不合适时才新建标签。{{/if}}\n\n{{content}}',
+        temperature: 0.7,
+        maxTokens: 100
+    },
+    weeklyDigest: {
+        template: '请用{{language}}对以下一周（{{date_range}}）的内容进行总结和分析，生成一份周报。要求：\n1. 主要工作内容和成果\n2. 重要事项和进展\n3. 问题和解决方案\n4. 下周计划和展望\n\n内容：\n{{content}}',
+        temperature: 0.7,
+        maxTokens: 1000
+    }
+};
+
 // AI 功能配置
 export interface AISettings {
     enabled: boolean;
@@ -32,31 +134,107 @@ export interface AISettings {
     customModelName: string;
     apiKey: string;
     ollamaBaseUrl: string;
+    // Claude API 地址，可改为代理地址
+    claudeBaseUrl: string;
+    // OpenAI 兼容接口：地址、自定义请求头（每行一个“名称: 值”）和从 /models 获取的模型列表
+    compatibleBaseUrl: string;
+    compatibleHeaders: string;
+    compatibleModels: string[];
     weeklyDigest: boolean;
     autoTags: boolean;
     intelligentSummary: boolean;
     summaryLanguage: 'zh' | 'en' | 'ja' | 'ko';
+    // 各任务的提示词，所有 AI 提供商共用
+    prompts: Record<AITask, PromptSettings>;
+    // 标签别名表，每行一个“规范标签: 同义词1, 同义词2”
+    tagAliases: string;
 }
 
 // 主设置接口
 export interface MemosPluginSettings {
-    memosApiUrl: string;
-    memosAccessToken: string;
-    syncDirectory: string;
-    syncFrequency: 'manual' | 'auto';
-    autoSyncInterval: number;
+    profiles: ServerProfile[];
     syncLimit: number;
+    // “同步最近几天”命令拉取的天数
+    recentSyncDays: number;
+    // 同步历史保留的记录数
+    historyLimit: number;
+    // 每次同步后在库中写入 Markdown 同步报告
+    syncReport: boolean;
+    syncReportFolder: string;
+    // 同步时同时进行的 API 请求、资源下载和 AI 调用数
+    networkConcurrency: number;
+    downloadConcurrency: number;
+    aiConcurrency: number;
+    updateExistingMemos: boolean;
+    metadataFormat: MetadataFormat;
+    outputMode: OutputMode;
+    dailyNoteHeading: string;
+    folderPattern: string;
+    fileNamePattern: string;
+    resourceLocation: ResourceLocation;
+    resourceFolder: string;
+    resourceLinkStyle: ResourceLinkStyle;
+    templatePath: string;
+    twoWaySync: boolean;
+    missingMemoPolicy: MissingMemoPolicy;
+    syncArchivedMemos: boolean;
     ai: AISettings;
 }
 
-// 默认设置
-export const DEFAULT_SETTINGS: MemosPluginSettings = {
+export const DEFAULT_FILTERS: SyncFilters = {
+    includeTags: [],
+    excludeTags: [],
+    visibilities: [],
+    creators: [],
+    pinned: 'any',
+    contentPattern: '',
+    excludeContentPattern: '',
+    createdAfter: '',
+    createdBefore: ''
+};
+
+// 旧版本的单服务器设置迁移为该 ID 的服务器
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const DEFAULT_PROFILE: ServerProfile = {
+    id: DEFAULT_PROFILE_ID,
+    name: '默认',
     memosApiUrl: '',
     memosAccessToken: '',
+    memosApiVersion: 'auto',
     syncDirectory: 'memos',
     syncFrequency: 'manual',
     autoSyncInterval: 30,
+    cronExpression: '0 * * * *',
+    syncOnStartup: false,
+    syncOnFocus: false,
+    filters: DEFAULT_FILTERS
+};
+
+// 默认设置
+export const DEFAULT_SETTINGS: MemosPluginSettings = {
+    profiles: [DEFAULT_PROFILE],
     syncLimit: 1000,
+    recentSyncDays: 7,
+    historyLimit: 50,
+    syncReport: false,
+    syncReportFolder: 'Memos 同步报告',
+    networkConcurrency: 4,
+    downloadConcurrency: 4,
+    aiConcurrency: 2,
+    updateExistingMemos: false,
+    metadataFormat: 'callout',
+    outputMode: 'file',
+    dailyNoteHeading: '## Memos',
+    folderPattern: '{{YYYY}}/{{MM}}',
+    fileNamePattern: '{{title}} ({{YYYY}}-{{MM}}-{{DD}} {{HH}}-{{mm}})',
+    resourceLocation: 'note',
+    resourceFolder: '',
+    resourceLinkStyle: 'markdown',
+    templatePath: '',
+    twoWaySync: false,
+    missingMemoPolicy: 'keep',
+    syncArchivedMemos: false,
     ai: {
         enabled: false,
         modelType: 'openai',
@@ -64,9 +242,15 @@ export const DEFAULT_SETTINGS: MemosPluginSettings = {
         customModelName: '',
         apiKey: '',
         ollamaBaseUrl: 'http://localhost:11434',
+        claudeBaseUrl: 'https://api.anthropic.com',
+        compatibleBaseUrl: '',
+        compatibleHeaders: '',
+        compatibleModels: [],
         weeklyDigest: true,
         autoTags: true,
         intelligentSummary: true,
-        summaryLanguage: 'zh'
+        summaryLanguage: 'zh',
+        prompts: DEFAULT_PROMPTS,
+        tagAliases: ''
     }
 }; 
\ No newline at end of file
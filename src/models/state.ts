@@ -0,0 +1,122 @@
+import type { MemoEnrichment, NoteLayout } from './settings';
+
+// 同步游标：记录上一次成功同步的时间与已见到的最新 updateTime
+export interface SyncState {
+    lastSyncTime: string;
+    lastUpdateTime: string;
+}
+
+// memo 索引项：笔记路径、正文哈希与同步时服务端的 updateTime
+export interface MemoIndexEntry {
+    path: string;
+    hash: string;
+    updateTime: string;
+    // memo uid，迁移笔记时用于计算文件名（重建索引得到的项没有此字段）
+    uid?: string;
+}
+
+// 同步任务日志：记录已写入的 memo 和已完成的 AI 处理，中断后下次同步从这里继续
+export interface SyncJob {
+    startedAt: string;
+    // memo name -> 写入时的 updateTime
+    completed: Record<string, string>;
+    // memo name -> 尚未写入的 memo 的 AI 处理结果
+    enrichments: Record<string, { updateTime: string; enrichment: MemoEnrichment }>;
+}
+
+// 已下载的资源文件：本地路径与内容哈希
+export interface ResourceEntry {
+    path: string;
+    hash: string;
+}
+
+// 两端都有修改的 memo
+export interface MemoConflict {
+    path: string;
+    detectedAt: string;
+    base: string;
+    local: string;
+    remote: string;
+    remoteUpdateTime: string;
+}
+
+// 同步失败的 memo：失败原因与已尝试次数，下次同步或手动重试时重新处理
+export interface FailedMemo {
+    reason: string;
+    failedAt: string;
+    attempts: number;
+}
+
+// 失败的 memo 自动重试的最多次数，超过后只能手动重试
+export const MAX_RETRY_ATTEMPTS = 5;
+
+// 一次同步中写入或失败的 memo（跳过的只计数）
+export interface SyncRunItem {
+    memoName: string;
+    status: 'created' | 'updated' | 'failed';
+    path: string;
+    error?: string;
+    // AI 新建的、库中原本没有的标签
+    newTags?: string[];
+}
+
+// 一个服务器的一次同步记录
+export interface SyncRunRecord {
+    id: string;
+    profileId: string;
+    profileName: string;
+    startedAt: string;
+    finishedAt: string;
+    status: 'success' | 'error' | 'cancelled';
+    created: number;
+    updated: number;
+    skipped: number;
+    failed: number;
+    pushed: number;
+    conflicts: number;
+    resourcesDownloaded: number;
+    aiCalls: number;
+    errors: string[];
+    items: SyncRunItem[];
+    // 本次同步中 AI 新建的标签（旧记录没有此字段）
+    newTags?: string[];
+}
+
+// 插件运行状态（与设置一同保存在插件数据中）
+export interface PluginState {
+    sync: SyncState;
+    // memo name -> 笔记索引
+    memoIndex: Record<string, MemoIndexEntry>;
+    indexBuiltAt: string;
+    // memo name -> 本地有未回写修改的笔记路径
+    pendingChanges: Record<string, string>;
+    conflicts: Record<string, MemoConflict>;
+    // resource name -> 已下载的资源文件
+    resources: Record<string, ResourceEntry>;
+    // 已同步笔记当前遵循的目录与文件名规则，与设置不同时可迁移
+    layout: NoteLayout | null;
+    // 未完成的同步任务
+    job: SyncJob | null;
+    // memo name -> 等待重试的失败项
+    failures: Record<string, FailedMemo>;
+    // 上次核对服务端已归档/删除 memo 的时间
+    reconciledAt: string;
+}
+
+export const DEFAULT_SYNC_STATE: SyncState = {
+    lastSyncTime: '',
+    lastUpdateTime: ''
+};
+
+export const DEFAULT_PLUGIN_STATE: PluginState = {
+    sync: { ...DEFAULT_SYNC_STATE },
+    memoIndex: {},
+    indexBuiltAt: '',
+    pendingChanges: {},
+    conflicts: {},
+    resources: {},
+    layout: null,
+    job: null,
+    failures: {},
+    reconciledAt: ''
+};
@@ -1,11 +1,41 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import OpenAI from 'openai';
 import { Notice } from 'obsidian';
+import type { AITask } from '../models/settings';
+import { DEFAULT_PROMPTS } from '../models/settings';
+import type { PromptVariables } from './prompt-registry';
+import { PromptRegistry } from './prompt-registry';
+import { parseSummary, parseTags } from '../utils/structured-output';
 
 export interface AIService {
     generateSummary(content: string, language?: string): Promise<string>;
-    generateTags(content: string): Promise<string[]>;
-    generateWeeklyDigest(contents: string[]): Promise<string>;
+    generateTags(content: string, existingTags?: string[], language?: string): Promise<string[]>;
+    generateWeeklyDigest(contents: string[], dateRange?: string, language?: string): Promise<string>;
+}
+
+// 要求模型按 JSON Schema 返回结果
+export interface OutputSchema {
+    name: string;
+    schema: Record<string, unknown>;
+}
+
+export interface CompletionOptions {
+    temperature: number;
+    maxTokens: number;
+    schema?: OutputSchema;
+}
+
+// 各 AI 提供商只负责发送提示词并返回生成的文本
+interface CompletionProvider {
+    complete(prompt: string, options: CompletionOptions): Promise<string>;
+}
+
+// AI 接口返回错误状态码
+export class ProviderRequestError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'ProviderRequestError';
+    }
 }
 
 export const GEMINI_MODELS = {
@@ -30,6 +60,20 @@ export const OPENAI_MODELS = {
     '自定义模型': 'custom'  // 已添加
 } as const;
 
+export const CLAUDE_MODELS = {
+    'Claude 3.5 Sonnet': 'claude-3-5-sonnet-latest',
+    'Claude 3.5 Haiku': 'claude-3-5-haiku-latest',
+    'Claude 3 Opus': 'claude-3-opus-20240229',
+    'Claude 3 Sonnet': 'claude-3-sonnet-20240229',
+    'Claude 3 Haiku': 'claude-3-haiku-20240307',
+    '自定义模型': 'custom'
+} as const;
+
+export const DEFAULT_CLAUDE_BASE_URL = 'https://api.anthropic.com';
+
+// Anthropic Messages API 只接受 0 到 1 的温度，超出时返回 400
+export const CLAUDE_MAX_TEMPERATURE = 1;
+
 export const OLLAMA_MODELS = {
     'Llama 2': 'llama2',
     'Mistral': 'mistral',
@@ -59,6 +103,13 @@ export const MODEL_DESCRIPTIONS = {
     'gpt-4o-realtime-preview-2024-10-01': '实时预览的稳定快照版本',
     'chatgpt-4o-latest': 'ChatGPT 使用的最新版本，持续更新',
 
+    // Claude Models
+    'claude-3-5-sonnet-latest': '均衡的性能与速度，适合大多数任务',
+    'claude-3-5-haiku-latest': '速度快、成本低',
+    'claude-3-opus-20240229': '复杂任务，推理能力最强',
+    'claude-3-sonnet-20240229': '性能与成本平衡',
+    'claude-3-haiku-20240307': '响应最快的轻量级模型',
+
     // Ollama Models
     'llama2': 'Llama 2 - 通用大语言模型',
     'mistral': 'Mistral - 高性能开源模型',
@@ -103,7 +154,7 @@ async function retryWithBackoff<T>(
     throw new Error('重试次数已达上限');
 }
 
-class GeminiService implements AIService {
+class GeminiService implements CompletionProvider {
     private model: any;
 
     constructor(apiKey: string, modelName?: string) {
@@ -111,45 +162,22 @@ class GeminiService implements AIService {
         this.model = genAI.getGenerativeModel({ model: modelName || GEMINI_MODELS['Gemini 1.5 Flash'] });
     }
 
-    async generateSummary(content: string, language = 'zh'): Promise<string> {
-        const prompt = `请用${language === 'zh' ? '中文' : 'English'}总结以下内容的要点：\n\n${content}`;
-        return retryWithBackoff(async () => {
-            const result = await this.model.generateContent(prompt);
-            const text = result.response.text();
-            return text.trim();
-        });
-    }
-
-    async generateTags(content: string): Promise<string[]> {
-        const prompt = `请为以下内容生成3-5个相关标签（不要带#号）：\n\n${content}`;
-        return retryWithBackoff(async () => {
-            const result = await this.model.generateContent(prompt);
-            const text = result.response.text();
-            return text.split(/[,，\s]+/).filter(Boolean);
-        });
-    }
-
-    async generateWeeklyDigest(contents: string[]): Promise<string> {
-        const combinedContent = contents.join('\n---\n');
-        const prompt = `请对下一周的内容进行总结和分析，生成一份周报。重点关注：
-1. 主要工作内容和成果
-2. 重要事项和进展
-3. 问题和解决方案
-4. 下周计划和展望
-
-内容：\n${combinedContent}`;
-        
-        return retryWithBackoff(async () => {
-            const result = await this.model.generateContent(prompt);
-            const text = result.response.text();
-            return text.trim();
+    async complete(prompt: string, options: CompletionOptions): Promise<string> {
+        const result = await this.model.generateContent({
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            generationConfig: {
+                temperature: options.temperature,
+                maxOutputTokens: options.maxTokens,
+                ...(options.schema ? { responseMimeType: 'application/json', responseSchema: options.schema.schema } : {})
+            }
         });
+        return result.response.text();
     }
 }
 
-export class OpenAIService implements AIService {
-    private client: OpenAI;
-    private model: string;
+export class OpenAIService implements CompletionProvider {
+    protected client: OpenAI;
+    protected model: string;
     private encryptionKey: Uint8Array;
 
     // 生成随机 IV
@@ -275,56 +303,202 @@ export class OpenAIService implements AIService {
         }
     }
 
-    async generateSummary(content: string, language = 'zh'): Promise<string> {
-        const prompt = `请用${language === 'zh' ? '中文' : 'English'}总结以下内容的要点：\n\n${content}`;
-        return retryWithBackoff(async () => {
-            const response = await this.client.chat.completions.create({
-                model: this.model,
-                messages: [{ role: 'user', content: prompt }],
-                temperature: 0.7,
-                max_tokens: 500
-            });
-            return response.choices[0]?.message?.content?.trim() || '';
-        });
+    // OpenAI 支持严格按 JSON Schema 输出
+    protected getResponseFormat(schema: OutputSchema): OpenAI.ChatCompletionCreateParams['response_format'] {
+        return {
+            type: 'json_schema',
+            json_schema: {
+                name: schema.name,
+                schema: { ...schema.schema, additionalProperties: false },
+                strict: true
+            }
+        };
     }
 
-    async generateTags(content: string): Promise<string[]> {
-        const prompt = `请为以下内容生成3-5个相关标签（不要带#号）：\n\n${content}`;
-        return retryWithBackoff(async () => {
-            const response = await this.client.chat.completions.create({
-                model: this.model,
-                messages: [{ role: 'user', content: prompt }],
-                temperature: 0.7,
-                max_tokens: 100
-            });
-            const text = response.choices[0]?.message?.content || '';
-            return text.split(/[,，\s]+/).filter(Boolean);
+    async complete(prompt: string, options: CompletionOptions): Promise<string> {
+        const response = await this.client.chat.completions.create({
+            model: this.model,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: options.temperature,
+            max_tokens: options.maxTokens,
+            response_format: options.schema ? this.getResponseFormat(options.schema) : undefined
         });
+        return response.choices[0]?.message?.content || '';
     }
+}
 
-    async generateWeeklyDigest(contents: string[]): Promise<string> {
-        const combinedContent = contents.join('\n---\n');
-        const prompt = `请对以下一周的内容进行总结和分析，生成一份周报。要求：
-1. 主要工作内容和成果
-2. 重要事项和进展
-3. 问题和解决方案
-4. 下周计划和展望
+// Anthropic Messages API，baseUrl 可指向代理或本地模拟服务
+class ClaudeService implements CompletionProvider {
+    private baseUrl: string;
+    private model: string;
 
-内容：\n${combinedContent}`;
+    constructor(private apiKey: string, modelName?: string, baseUrl?: string) {
+        this.baseUrl = (baseUrl || DEFAULT_CLAUDE_BASE_URL).replace(/\/+$/, '');
+        this.model = modelName || CLAUDE_MODELS['Claude 3.5 Sonnet'];
+    }
 
-        return retryWithBackoff(async () => {
-            const response = await this.client.chat.completions.create({
+    async complete(prompt: string, options: CompletionOptions): Promise<string> {
+        const response = await fetch(`${this.baseUrl}/v1/messages`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-api-key': this.apiKey,
+                'anthropic-version': '2023-06-01',
+                // 插件在浏览器环境中直接调用 API
+                'anthropic-dangerous-direct-browser-access': 'true'
+            },
+            body: JSON.stringify({
                 model: this.model,
+                max_tokens: options.maxTokens,
+                temperature: Math.min(Math.max(options.temperature, 0), CLAUDE_MAX_TEMPERATURE),
                 messages: [{ role: 'user', content: prompt }],
-                temperature: 0.7,
-                max_tokens: 1000
-            });
-            return response.choices[0]?.message?.content?.trim() || '';
+                // Claude 没有 JSON 模式，通过强制调用工具让输出符合 schema
+                ...(options.schema ? {
+                    tools: [{ name: options.schema.name, description: '按要求的格式返回结果', input_schema: options.schema.schema }],
+                    tool_choice: { type: 'tool', name: options.schema.name }
+                } : {})
+            })
         });
+
+        if (!response.ok) {
+            let detail = response.statusText;
+            try {
+                const data = await response.json();
+                detail = data?.error?.message || detail;
+            } catch (error) {
+                // 响应不是 JSON 时使用状态文本
+            }
+            throw new Error(`Claude API error: ${response.status} ${detail}`);
+        }
+
+        const data = await response.json();
+        const blocks: Array<{ type: string; text?: string; input?: unknown }> = Array.isArray(data?.content) ? data.content : [];
+        const toolUse = blocks.find(block => block.type === 'tool_use');
+        if (toolUse) {
+            return JSON.stringify(toolUse.input);
+        }
+        return blocks
+            .filter(block => block.type === 'text' && typeof block.text === 'string')
+            .map(block => block.text)
+            .join('');
+    }
+}
+
+/**
+ * 解析自定义请求头，每行一个“名称: 值”，忽略空行和 # 开头的行
+ */
+export function parseHeaders(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        const separator = trimmed.indexOf(':');
+        if (!trimmed || trimmed.startsWith('#') || separator <= 0) {
+            continue;
+        }
+        headers[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1).trim();
+    }
+    return headers;
+}
+
+// 本地服务可以不配置密钥，此时不发送 Authorization 请求头
+function createCompatibleClient(baseURL: string, apiKey: string, headers: Record<string, string>): OpenAI {
+    if (!baseURL) {
+        throw new Error('未配置 OpenAI 兼容接口地址');
+    }
+    return new OpenAI({
+        apiKey: apiKey || 'none',
+        baseURL: baseURL.replace(/\/+$/, ''),
+        defaultHeaders: apiKey ? headers : { Authorization: null, ...headers },
+        dangerouslyAllowBrowser: true
+    });
+}
+
+/**
+ * 获取 OpenAI 兼容接口 /models 返回的模型 ID
+ */
+export async function listCompatibleModels(baseURL: string, apiKey: string, headers: Record<string, string>): Promise<string[]> {
+    const page = await createCompatibleClient(baseURL, apiKey, headers).models.list();
+    return page.data.map(model => model.id).sort();
+}
+
+// 只有错误信息指向结构化输出参数时才说明接口不支持；提示过长、模型名错误等 400 错误照常抛出
+function isStructuredOutputRejected(error: { status?: number; message?: string; error?: unknown } | null, pattern: RegExp): boolean {
+    if (error?.status !== 400 && error?.status !== 422) {
+        return false;
+    }
+    const detail = `${error.message || ''} ${JSON.stringify(error.error ?? '')}`;
+    return pattern.test(detail);
+}
+
+function isJsonModeRejected(error: { status?: number; message?: string; error?: unknown } | null): boolean {
+    return isStructuredOutputRejected(error, /response_format|json_object|json mode/i);
+}
+
+/**
+ * 不支持按 schema 输出的模型（较早的 Gemini 模型、0.5 之前的 Ollama）拒绝请求时，改为普通输出，由解析器容错。
+ * 只记在当前实例中，修改设置后重新创建服务时会再次尝试
+ */
+class SchemaFallbackProvider implements CompletionProvider {
+    private schemaUnsupported = false;
+
+    constructor(private provider: CompletionProvider, private rejectedPattern: RegExp) {}
+
+    async complete(prompt: string, options: CompletionOptions): Promise<string> {
+        if (!options.schema || this.schemaUnsupported) {
+            return this.provider.complete(prompt, { ...options, schema: undefined });
+        }
+        try {
+            return await this.provider.complete(prompt, options);
+        } catch (error) {
+            if (!isStructuredOutputRejected(error, this.rejectedPattern)) {
+                throw error;
+            }
+            console.log('模型不支持按 schema 输出，改为普通输出:', error.message);
+            this.schemaUnsupported = true;
+            return this.provider.complete(prompt, { ...options, schema: undefined });
+        }
     }
 }
 
-class OllamaService implements AIService {
+/**
+ * OpenAI 兼容接口（DeepSeek、Moonshot、Azure OpenAI、LM Studio、vLLM 等），地址、密钥和请求头均可配置
+ */
+export class OpenAICompatibleService extends OpenAIService {
+    // 兼容接口大多只支持 JSON 模式，不支持时退回普通输出，由解析器容错。
+    // 只记在当前实例中，修改设置后重新创建服务时会再次尝试
+    private jsonModeUnsupported = false;
+
+    constructor(baseURL: string, apiKey: string, modelName: string, headers: Record<string, string> = {}) {
+        super();
+        if (!modelName) {
+            throw new Error('未配置 OpenAI 兼容接口的模型名称');
+        }
+        this.client = createCompatibleClient(baseURL, apiKey, headers);
+        this.model = modelName;
+    }
+
+    protected getResponseFormat(): OpenAI.ChatCompletionCreateParams['response_format'] {
+        return { type: 'json_object' };
+    }
+
+    async complete(prompt: string, options: CompletionOptions): Promise<string> {
+        if (!options.schema || this.jsonModeUnsupported) {
+            return super.complete(prompt, { ...options, schema: undefined });
+        }
+        try {
+            return await super.complete(prompt, options);
+        } catch (error) {
+            if (!isJsonModeRejected(error)) {
+                throw error;
+            }
+            console.log('接口不支持 JSON 模式，改为普通输出:', error.message);
+            this.jsonModeUnsupported = true;
+            return super.complete(prompt, { ...options, schema: undefined });
+        }
+    }
+}
+
+class OllamaService implements CompletionProvider {
     private baseUrl: string;
     private model: string;
 
@@ -333,7 +507,7 @@ class OllamaService implements AIService {
         this.model = modelName || OLLAMA_MODELS['Llama 2'];
     }
 
-    private async generateCompletion(prompt: string): Promise<string> {
+    async complete(prompt: string, options: CompletionOptions): Promise<string> {
         try {
             const response = await fetch(`${this.baseUrl}/api/generate`, {
                 method: 'POST',
@@ -344,16 +518,17 @@ class OllamaService implements AIService {
                     model: this.model,
                     prompt: prompt,
                     stream: false,
+                    format: options.schema?.schema,
                     options: {
-                        temperature: 0.7,
+                        temperature: options.temperature,
                         top_p: 0.9,
-                        max_tokens: 1000,
+                        num_predict: options.maxTokens
                     }
                 })
             });
 
             if (!response.ok) {
-                throw new Error(`Ollama API error: ${response.status}`);
+                throw new ProviderRequestError(`Ollama API error: ${response.status} ${await response.text()}`, response.status);
             }
 
             const data = await response.json();
@@ -363,47 +538,82 @@ class OllamaService implements AIService {
             throw error;
         }
     }
+}
 
-    async generateSummary(content: string, language = 'zh'): Promise<string> {
-        const prompt = `请用${language === 'zh' ? '中文' : 'English'}总结以下内容的要点：\n\n${content}`;
-        return retryWithBackoff(async () => {
-            const response = await this.generateCompletion(prompt);
-            return response.trim();
-        });
-    }
+// 摘要和标签的输出格式：给提供商的 schema，以及附加在提示词后的格式说明
+interface StructuredOutput {
+    schema: OutputSchema;
+    instruction: string;
+}
 
-    async generateTags(content: string): Promise<string[]> {
-        const prompt = `请为以下内容生成3-5个相关标签（不要带#号）：\n\n${content}`;
-        return retryWithBackoff(async () => {
-            const response = await this.generateCompletion(prompt);
-            return response.split(/[,，\s]+/).filter(Boolean);
-        });
+const SUMMARY_OUTPUT: StructuredOutput = {
+    schema: {
+        name: 'memo_summary',
+        schema: {
+            type: 'object',
+            properties: { summary: { type: 'string' } },
+            required: ['summary']
+        }
+    },
+    instruction: '请只返回 JSON，不要添加其他内容，格式为：{"summary": "摘要内容"}'
+};
+
+const TAGS_OUTPUT: StructuredOutput = {
+    schema: {
+        name: 'memo_tags',
+        schema: {
+            type: 'object',
+            properties: { tags: { type: 'array', items: { type: 'string' } } },
+            required: ['tags']
+        }
+    },
+    instruction: '请只返回 JSON，不要添加其他内容，格式为：{"tags": ["标签1", "标签2"]}，标签中不要带 # 号和空格'
+};
+
+/**
+ * 按提示词模板生成摘要、标签和每周总结，所有提供商共用同一套提示词
+ */
+class PromptedAIService implements AIService {
+    constructor(private provider: CompletionProvider, private prompts: PromptRegistry) {}
+
+    // 指定 output 时在提示词后附加 JSON 格式要求，并让支持的提供商按 schema 输出
+    private async run(task: AITask, variables: PromptVariables, output?: StructuredOutput): Promise<string> {
+        const { prompt, temperature, maxTokens } = this.prompts.render(task, variables);
+        const fullPrompt = output ? `${prompt}\n\n${output.instruction}` : prompt;
+        return retryWithBackoff(() => this.provider.complete(fullPrompt, { temperature, maxTokens, schema: output?.schema }));
     }
 
-    async generateWeeklyDigest(contents: string[]): Promise<string> {
-        const combinedContent = contents.join('\n---\n');
-        const prompt = `请对以下一周的内容进行总结和分析，生成一份周报。要求：
-1. 主要工作内容和成果
-2. 重要事项和进展
-3. 问题和解决方案
-4. 下周计划和展望
+    async generateSummary(content: string, language = 'zh'): Promise<string> {
+        return parseSummary(await this.run('summary', { content, language }, SUMMARY_OUTPUT));
+    }
 
-内容：\n${combinedContent}`;
+    async generateTags(content: string, existingTags: string[] = [], language = 'zh'): Promise<string[]> {
+        const text = await this.run('tags', { content, language, tags_existing: existingTags.join(', ') }, TAGS_OUTPUT);
+        return parseTags(text);
+    }
 
-        return retryWithBackoff(async () => {
-            const response = await this.generateCompletion(prompt);
-            return response.trim();
-        });
+    async generateWeeklyDigest(contents: string[], dateRange = '', language = 'zh'): Promise<string> {
+        const text = await this.run('weeklyDigest', { content: contents.join('\n---\n'), date_range: dateRange, language });
+        return text.trim();
     }
 }
 
-export function createAIService(type: string, apiKey?: string, modelName?: string): AIService {
+function createProvider(
+    type: string,
+    apiKey?: string,
+    modelName?: string,
+    baseUrl?: string,
+    headers?: Record<string, string>
+): CompletionProvider | null {
     switch (type.toLowerCase()) {
         case 'gemini':
             if (!apiKey) {
                 throw new Error('未配置 Gemini API 密钥');
             }
-            return new GeminiService(apiKey, modelName);
+            return new SchemaFallbackProvider(
+                new GeminiService(apiKey, modelName),
+                /response_?schema|response_?mime_?type|json mode/i
+            );
         case 'openai':
             if (!apiKey) {
                 throw new Error('未配置 OpenAI API 密钥');
@@ -411,12 +621,37 @@ export function createAIService(type: string, apiKey?: string, modelName?: strin
             const service = new OpenAIService();
             service.initialize(apiKey, modelName);
             return service;
+        case 'openai-compatible':
+            return new OpenAICompatibleService(baseUrl || '', apiKey || '', modelName || '', headers);
+        case 'claude':
+            if (!apiKey) {
+                throw new Error('未配置 Claude API 密钥');
+            }
+            return new ClaudeService(apiKey, modelName, baseUrl);
         case 'ollama':
-            return new OllamaService(apiKey || 'http://localhost:11434', modelName);
+            return new SchemaFallbackProvider(
+                new OllamaService(apiKey || 'http://localhost:11434', modelName),
+                /format|schema/i
+            );
         default:
-            console.log('使用默认的空 AI 服务');
-            return createDummyAIService();
+            return null;
+    }
+}
+
+export function createAIService(
+    type: string,
+    apiKey?: string,
+    modelName?: string,
+    baseUrl?: string,
+    headers?: Record<string, string>,
+    prompts: PromptRegistry = new PromptRegistry(DEFAULT_PROMPTS)
+): AIService {
+    const provider = createProvider(type, apiKey, modelName, baseUrl, headers);
+    if (!provider) {
+        console.log('使用默认的空 AI 服务');
+        return createDummyAIService();
     }
+    return new PromptedAIService(provider, prompts);
 }
 
 export function createDummyAIService(): AIService {
@@ -0,0 +1,42 @@
+import type { DataAdapter } from 'obsidian';
+import { ensureDirectoryExists } from '../utils/path';
+
+/**
+ * 上次同步时的 memo 正文，作为三方对比的基准版本。每条 memo 一个文件，存放在插件目录下，
+ * 插件数据中只保留哈希与 updateTime
+ */
+export class BaseContentService {
+    constructor(private adapter: DataAdapter, private directory: string) {}
+
+    private getPath(memoName: string): string {
+        return `${this.directory}/${memoName.replace(/[\\/:*?"<>|]/g, '_')}.txt`;
+    }
+
+    async has(memoName: string): Promise<boolean> {
+        return this.adapter.exists(this.getPath(memoName));
+    }
+
+    async get(memoName: string): Promise<string | undefined> {
+        const path = this.getPath(memoName);
+        return await this.adapter.exists(path) ? this.adapter.read(path) : undefined;
+    }
+
+    async set(memoName: string, content: string): Promise<void> {
+        await ensureDirectoryExists(this.adapter, this.directory);
+        await this.adapter.write(this.getPath(memoName), content);
+    }
+
+    async delete(memoName: string): Promise<void> {
+        const path = this.getPath(memoName);
+        if (await this.adapter.exists(path)) {
+            await this.adapter.remove(path);
+        }
+    }
+
+    // 删除服务器时清除它的全部基准
+    async clear(): Promise<void> {
+        if (await this.adapter.exists(this.directory)) {
+            await this.adapter.rmdir(this.directory, true);
+        }
+    }
+}
@@ -0,0 +1,216 @@
+import { TFile } from 'obsidian';
+import type { TAbstractFile, Vault } from 'obsidian';
+import type { MemoItem } from '../models/settings';
+import type { PluginState } from '../models/state';
+import type { MemosService } from './memos-service';
+import type { FileService } from './file-service';
+import type { MemoIndexService } from './index-service';
+import type { BaseContentService } from './base-content-service';
+import { hashContent } from '../utils/hash';
+
+export interface PushResult {
+    pushed: number;
+    conflicts: number;
+    failed: number;
+}
+
+/**
+ * 检测同步目录下笔记的本地修改，并回写到 Memos
+ */
+export class ChangeService {
+    constructor(
+        private vault: Vault,
+        private syncDirectory: string,
+        private memosService: MemosService,
+        private fileService: FileService,
+        private index: MemoIndexService,
+        private baseContents: BaseContentService,
+        private state: PluginState,
+        private saveState: () => Promise<void>
+    ) {}
+
+    isSyncedFile(file: TAbstractFile | null): file is TFile {
+        return file instanceof TFile
+            && file.extension === 'md'
+            && file.path.startsWith(`${this.syncDirectory}/`);
+    }
+
+    getLocalMemoContent(noteContent: string): string {
+        return this.fileService.getMemoContent(noteContent);
+    }
+
+    async hasBaseContent(memoName: string): Promise<boolean> {
+        return this.baseContents.has(memoName);
+    }
+
+    async getBaseContent(memoName: string): Promise<string | undefined> {
+        return this.baseContents.get(memoName);
+    }
+
+    /**
+     * 记录笔记当前内容作为同步基准（索引中的哈希与 updateTime，以及用于三方对比的正文），之后的修改才会被视为本地修改
+     */
+    async recordSyncedContent(memoName: string, filePath: string, updateTime: string): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(filePath);
+        if (!(file instanceof TFile)) {
+            return;
+        }
+        const content = this.getLocalMemoContent(await this.vault.read(file));
+        this.index.set(memoName, {
+            path: filePath,
+            hash: await hashContent(content),
+            updateTime
+        });
+        await this.baseContents.set(memoName, content);
+        delete this.state.pendingChanges[memoName];
+    }
+
+    /**
+     * 为未写入的已有笔记补记同步基准。笔记记录的 updateTime 与 memo 一致时才以 memo 的 updateTime 为基准，
+     * 否则沿用笔记记录的时间，之后的本地修改回写前仍会发现服务端的修改
+     */
+    async recordExistingContent(memo: MemoItem, filePath: string): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(filePath);
+        if (!(file instanceof TFile)) {
+            return;
+        }
+        const noteContent = await this.vault.read(file);
+        const storedTime = this.fileService.getStoredUpdateTime(noteContent);
+        const updateTime = !this.fileService.isMemoUpdated(memo, noteContent)
+            ? memo.updateTime
+            : storedTime !== null ? new Date(storedTime).toISOString() : '';
+        await this.recordSyncedContent(memo.name, filePath, updateTime);
+    }
+
+    /**
+     * 服务端在上次同步之后是否有修改
+     */
+    isRemoteChanged(memo: MemoItem, noteContent: string): boolean {
+        const entry = this.index.get(memo.name);
+        if (entry?.updateTime) {
+            return new Date(memo.updateTime).getTime() > new Date(entry.updateTime).getTime();
+        }
+        return this.fileService.isMemoUpdated(memo, noteContent);
+    }
+
+    /**
+     * 对比笔记正文与同步基准，有差异时标记为待回写
+     */
+    async detectChange(file: TFile): Promise<boolean> {
+        const content = await this.vault.read(file);
+        const memoName = this.fileService.getMemoId(content);
+        if (!memoName) {
+            return false;
+        }
+
+        if (!this.fileService.hasRecoverableContent(content)) {
+            // 模板渲染的笔记无法区分 memo 正文与模板内容，不回写
+            delete this.state.pendingChanges[memoName];
+            return false;
+        }
+
+        const localContent = this.getLocalMemoContent(content);
+        const hash = await hashContent(localContent);
+        const entry = this.index.get(memoName);
+        if (!entry) {
+            // 没有基准时以当前内容为准
+            this.index.set(memoName, { path: file.path, hash, updateTime: '' });
+            await this.baseContents.set(memoName, localContent);
+            return false;
+        }
+
+        if (hash === entry.hash) {
+            if (!(await this.hasBaseContent(memoName))) {
+                await this.baseContents.set(memoName, localContent);
+            }
+            delete this.state.pendingChanges[memoName];
+            return false;
+        }
+
+        this.state.pendingChanges[memoName] = file.path;
+        return true;
+    }
+
+    /**
+     * 扫描上次同步后修改过的笔记，补上插件未运行期间的本地修改
+     */
+    async scanForChanges(since: string): Promise<void> {
+        const sinceTime = since ? new Date(since).getTime() : 0;
+        const files = this.vault.getMarkdownFiles()
+            .filter(file => this.isSyncedFile(file) && file.stat.mtime > sinceTime);
+
+        for (const file of files) {
+            await this.detectChange(file);
+        }
+        await this.saveState();
+    }
+
+    hasPendingChange(memoName: string): boolean {
+        return memoName in this.state.pendingChanges;
+    }
+
+    /**
+     * 以笔记内容在 Memos 中创建新 memo，并在笔记末尾写入 Memo Properties 以便之后同步
+     */
+    async createMemoFromFile(file: TFile): Promise<void> {
+        const noteContent = await this.vault.read(file);
+        if (this.fileService.getMemoId(noteContent)) {
+            throw new Error('该笔记已关联 memo');
+        }
+
+        const memo = await this.memosService.createMemo(this.getLocalMemoContent(noteContent));
+        await this.vault.modify(file, this.fileService.attachMemoProperties(noteContent.trimEnd(), memo));
+        await this.recordSyncedContent(memo.name, file.path, memo.updateTime);
+        await this.saveState();
+    }
+
+    /**
+     * 把待回写的本地修改推送到 Memos。服务端在上次同步后也有修改时交给 onConflict，不覆盖任何一端
+     */
+    async pushChanges(onConflict: (memoName: string, path: string, remote: MemoItem) => Promise<void>): Promise<PushResult> {
+        const result: PushResult = { pushed: 0, conflicts: 0, failed: 0 };
+
+        for (const [memoName, path] of Object.entries(this.state.pendingChanges)) {
+            if (this.state.conflicts[memoName]) {
+                continue;
+            }
+
+            const file = this.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) {
+                delete this.state.pendingChanges[memoName];
+                continue;
+            }
+
+            try {
+                const noteContent = await this.vault.read(file);
+                const serverMemo = await this.memosService.getMemo(memoName);
+
+                if (this.isRemoteChanged(serverMemo, noteContent)) {
+                    console.log(`Memo ${memoName} 两端都有修改，记为冲突`);
+                    await onConflict(memoName, path, serverMemo);
+                    result.conflicts++;
+                    continue;
+                }
+
+                await this.pushContent(memoName, path, this.getLocalMemoContent(noteContent));
+                result.pushed++;
+            } catch (error) {
+                console.error(`回写 memo ${memoName} 失败:`, error);
+                result.failed++;
+            }
+        }
+
+        await this.saveState();
+        return result;
+    }
+
+    /**
+     * 用给定内容覆盖服务端 memo，并把笔记的基准更新为回写后的版本
+     */
+    async pushContent(memoName: string, path: string, content: string): Promise<MemoItem> {
+        const updatedMemo = await this.memosService.updateMemoContent(memoName, content);
+        await this.fileService.setStoredUpdateTime(path, updatedMemo.updateTime);
+        await this.recordSyncedContent(memoName, path, updatedMemo.updateTime);
+        return updatedMemo;
+    }
+}
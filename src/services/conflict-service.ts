@@ -0,0 +1,117 @@
+import { TFile } from 'obsidian';
+import type { Vault } from 'obsidian';
+import type { MemoItem } from '../models/settings';
+import type { MemoConflict, PluginState } from '../models/state';
+import type { MemosService } from './memos-service';
+import type { FileService } from './file-service';
+import type { ContentService } from './content-service';
+import type { ChangeService } from './change-service';
+
+// 冲突处理方式：保留本地、保留服务端、两者都保留、手动合并
+export type ConflictResolution = 'local' | 'remote' | 'both' | 'merge';
+
+/**
+ * 管理两端都有修改的 memo：记录冲突队列并按用户选择的方式解决
+ */
+export class ConflictService {
+    constructor(
+        private vault: Vault,
+        private memosService: MemosService,
+        private fileService: FileService,
+        private contentService: ContentService,
+        private changeService: ChangeService,
+        private state: PluginState,
+        private onChange: () => Promise<void>
+    ) {}
+
+    getConflicts(): Array<[string, MemoConflict]> {
+        return Object.entries(this.state.conflicts)
+            .sort(([, a], [, b]) => a.detectedAt.localeCompare(b.detectedAt));
+    }
+
+    getConflict(memoName: string): MemoConflict | undefined {
+        return this.state.conflicts[memoName];
+    }
+
+    hasConflict(memoName: string): boolean {
+        return memoName in this.state.conflicts;
+    }
+
+    async recordConflict(memoName: string, path: string, remote: MemoItem): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(path);
+        const local = file instanceof TFile
+            ? this.changeService.getLocalMemoContent(await this.vault.read(file))
+            : '';
+
+        this.state.conflicts[memoName] = {
+            path,
+            detectedAt: new Date().toISOString(),
+            base: (await this.changeService.getBaseContent(memoName)) ?? '',
+            local,
+            remote: remote.content,
+            remoteUpdateTime: remote.updateTime
+        };
+        await this.onChange();
+    }
+
+    /**
+     * 读取笔记当前的本地内容（冲突记录后用户可能又做了修改）
+     */
+    async getLocalContent(memoName: string): Promise<string> {
+        const conflict = this.state.conflicts[memoName];
+        if (!conflict) {
+            return '';
+        }
+        const file = this.vault.getAbstractFileByPath(conflict.path);
+        if (!(file instanceof TFile)) {
+            return conflict.local;
+        }
+        return this.changeService.getLocalMemoContent(await this.vault.read(file));
+    }
+
+    async resolve(memoName: string, resolution: ConflictResolution, mergedContent?: string): Promise<void> {
+        const conflict = this.state.conflicts[memoName];
+        if (!conflict) {
+            throw new Error(`没有找到 ${memoName} 的冲突记录`);
+        }
+
+        const local = await this.getLocalContent(memoName);
+        switch (resolution) {
+            case 'local': {
+                await this.changeService.pushContent(memoName, conflict.path, local);
+                break;
+            }
+            case 'remote': {
+                const remote = await this.memosService.getMemo(memoName);
+                await this.writeRemote(remote);
+                break;
+            }
+            case 'both': {
+                // 本地版本作为新 memo 另存为一篇笔记，原笔记采用服务端版本
+                const copy = await this.memosService.createMemo(local);
+                await this.writeRemote(copy);
+                const remote = await this.memosService.getMemo(memoName);
+                await this.writeRemote(remote);
+                break;
+            }
+            case 'merge': {
+                if (mergedContent === undefined) {
+                    throw new Error('缺少合并后的内容');
+                }
+                const merged = await this.memosService.updateMemoContent(memoName, mergedContent);
+                await this.writeRemote(merged);
+                break;
+            }
+        }
+
+        delete this.state.conflicts[memoName];
+        delete this.state.pendingChanges[memoName];
+        await this.onChange();
+    }
+
+    private async writeRemote(memo: MemoItem): Promise<void> {
+        const processedMemo = await this.contentService.processMemo(memo);
+        const result = await this.fileService.saveMemoToFile(processedMemo, { force: true });
+        await this.changeService.recordSyncedContent(memo.name, result.path, memo.updateTime);
+    }
+}
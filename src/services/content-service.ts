@@ -1,8 +1,26 @@
 import type { AIService } from './ai-service';
-import type { MemoItem } from '../models/settings';
-import type { Vault } from 'obsidian';
+import type { MemoEnrichment, MemoItem, ProcessedMemo } from '../models/settings';
+import { TFile, getAllTags } from 'obsidian';
+import type { MetadataCache, Vault } from 'obsidian';
+import type { Limiter } from '../utils/concurrency';
+import { createLimiter } from '../utils/concurrency';
+import { extractTags, normalizeTag, normalizeTags } from '../utils/tags';
+import { ensureDirectoryExists } from '../utils/path';
+
+// 提示词中最多列出的库中标签数，按使用次数取最常用的
+const MAX_VOCABULARY_TAGS = 200;
+// 库中标签的缓存时间，期间 AI 新建的标签直接加入缓存
+const TAG_VOCABULARY_TTL = 10 * 60 * 1000;
+
+// 库中已有的标签：小写标签 -> 库中的写法与使用次数
+interface TagVocabulary {
+    tags: Map<string, { tag: string; count: number }>;
+    builtAt: number;
+}
 
 export class ContentService {
+    private tagVocabulary: TagVocabulary | null = null;
+
     constructor(
         private aiService: AIService,
         private aiEnabled: boolean,
@@ -10,9 +28,79 @@ export class ContentService {
         private enableTags: boolean,
         private summaryLanguage: string,
         private vault: Vault,
-        private syncDirectory: string
+        private metadataCache: MetadataCache,
+        private syncDirectory: string,
+        private aiLimiter: Limiter = createLimiter(1),
+        // 小写同义词 -> 规范标签
+        private tagAliases: Map<string, string> = new Map()
     ) {}
 
+    private getTagVocabulary(): TagVocabulary {
+        if (this.tagVocabulary && Date.now() - this.tagVocabulary.builtAt < TAG_VOCABULARY_TTL) {
+            return this.tagVocabulary;
+        }
+        const vocabulary: TagVocabulary = { tags: new Map(), builtAt: Date.now() };
+        for (const file of this.vault.getMarkdownFiles()) {
+            const cache = this.metadataCache.getFileCache(file);
+            for (const tag of (cache && getAllTags(cache)) || []) {
+                this.addToVocabulary(vocabulary, tag);
+            }
+        }
+        this.tagVocabulary = vocabulary;
+        return vocabulary;
+    }
+
+    private addToVocabulary(vocabulary: TagVocabulary, raw: string) {
+        const tag = this.canonicalizeTag(raw);
+        if (!tag) {
+            return;
+        }
+        const entry = vocabulary.tags.get(tag.toLowerCase());
+        if (entry) {
+            entry.count++;
+        } else {
+            vocabulary.tags.set(tag.toLowerCase(), { tag, count: 1 });
+        }
+    }
+
+    /**
+     * 标签的规范写法：别名表中的同义词换成规范标签，库中已有的标签沿用库中的大小写
+     */
+    canonicalizeTag(raw: string, vocabulary?: TagVocabulary): string {
+        const normalized = normalizeTag(raw);
+        const tag = this.tagAliases.get(normalized.toLowerCase()) || normalized;
+        return vocabulary?.tags.get(tag.toLowerCase())?.tag || tag;
+    }
+
+    /**
+     * AI 打标签：优先使用 memo 自身和库中已有的标签，结果换成规范写法，并找出库中原本没有的标签
+     */
+    private async generateTags(memo: MemoItem, checkCancelled: () => void): Promise<{ tags: string[]; newTags: string[] }> {
+        const vocabulary = this.getTagVocabulary();
+        const memoTags = normalizeTags((memo.tags && memo.tags.length > 0 ? memo.tags : extractTags(memo.content))
+            .map(tag => this.canonicalizeTag(tag, vocabulary)));
+        const vaultTags = Array.from(vocabulary.tags.values())
+            .sort((a, b) => b.count - a.count)
+            .slice(0, MAX_VOCABULARY_TAGS)
+            .map(entry => entry.tag);
+        const knownTags = normalizeTags([...memoTags, ...vaultTags]);
+
+        const generated = await this.aiLimiter(() => {
+            checkCancelled();
+            return this.aiService.generateTags(memo.content, knownTags, this.summaryLanguage);
+        });
+        const tags = normalizeTags((generated || []).map(tag => this.canonicalizeTag(tag, vocabulary)));
+        const memoTagSet = new Set(memoTags.map(tag => tag.toLowerCase()));
+        const newTags = tags.filter(tag => !vocabulary.tags.has(tag.toLowerCase()) && !memoTagSet.has(tag.toLowerCase()));
+        // 之后的 memo 也能沿用这些标签
+        for (const tag of [...memoTags, ...newTags]) {
+            if (!vocabulary.tags.has(tag.toLowerCase())) {
+                this.addToVocabulary(vocabulary, tag);
+            }
+        }
+        return { tags, newTags };
+    }
+
     private isContentSuitableForAI(content: string): boolean {
         const cleanContent = content
             .replace(/\[([^\]]*)\]\([^)]*\)/g, '')
@@ -23,30 +111,110 @@ export class ContentService {
         return cleanContent.length >= 10;
     }
 
-    async processMemoContent(memo: MemoItem): Promise<string> {
+    /**
+     * 只拆出标题和正文，不调用 AI
+     */
+    splitMemo(memo: MemoItem): MemoEnrichment {
+        const title = this.extractTitle(memo.content);
+        return {
+            title,
+            body: title ? memo.content.split('\n').slice(1).join('\n').trim() : memo.content,
+            summary: '',
+            aiTags: []
+        };
+    }
+
+    /**
+     * 拆出标题和正文，并按设置调用 AI 生成摘要和标签
+     */
+    async enrichMemo(memo: MemoItem, signal?: AbortSignal): Promise<MemoEnrichment> {
         const { content } = memo;
-        const title = this.extractTitle(content);
-        const mainContent = title ? content.slice(title.length).trim() : content;
-        let processedContent = title ? `# ${title}\n\n` : '';
+        const enrichment = this.splitMemo(memo);
 
         if (this.aiEnabled && this.isContentSuitableForAI(content)) {
-            if (this.enableSummary) {
-                const summary = await this.aiService.generateSummary(content, this.summaryLanguage);
-                if (summary?.trim()) {
-                    processedContent += `> [!abstract]+ 内容摘要\n> ${summary.replace(/\n/g, '\n> ')}\n\n`;
+            // 排队中的 AI 请求在同步取消后不再发出
+            const checkCancelled = () => {
+                if (signal?.aborted) {
+                    throw new Error('同步已取消');
                 }
+            };
+            const [summary, tags] = await Promise.all([
+                this.enableSummary
+                    ? this.aiLimiter(() => {
+                        checkCancelled();
+                        return this.aiService.generateSummary(content, this.summaryLanguage);
+                    })
+                    : Promise.resolve(''),
+                this.enableTags
+                    ? this.generateTags(memo, checkCancelled)
+                    : Promise.resolve({ tags: [], newTags: [] })
+            ]);
+            enrichment.summary = summary?.trim() || '';
+            enrichment.aiTags = tags.tags;
+            if (tags.newTags.length > 0) {
+                enrichment.newTags = tags.newTags;
             }
+        }
+
+        return enrichment;
+    }
 
-            if (this.enableTags) {
-                const tags = await this.aiService.generateTags(content);
-                if (tags?.length > 0) {
-                    processedContent += `> [!info]- 相关标签\n> ${tags.map(tag => `#${tag}`).join(' ')}\n\n`;
+    // 默认布局：标题、摘要 callout、标签 callout、正文
+    formatMemoContent(enrichment: MemoEnrichment): string {
+        const { title, body, summary, aiTags } = enrichment;
+        let processedContent = title ? `# ${title}\n\n` : '';
+
+        if (summary) {
+            processedContent += `> [!abstract]+ 内容摘要\n> ${summary.replace(/\n/g, '\n> ')}\n\n`;
+        }
+
+        if (aiTags.length > 0) {
+            processedContent += `> [!info]- 相关标签\n> ${aiTags.map(tag => `#${tag}`).join(' ')}\n\n`;
+        }
+
+        processedContent += body;
+        return processedContent.trim();
+    }
+
+    async processMemo(memo: MemoItem, signal?: AbortSignal): Promise<ProcessedMemo> {
+        return this.applyEnrichment(memo, await this.enrichMemo(memo, signal));
+    }
+
+    applyEnrichment(memo: MemoItem, enrichment: MemoEnrichment): ProcessedMemo {
+        return { ...memo, content: this.formatMemoContent(enrichment), enrichment };
+    }
+
+    async processMemoContent(memo: MemoItem): Promise<string> {
+        return (await this.processMemo(memo)).content;
+    }
+
+    /**
+     * 去掉 formatMemoContent 生成的 AI 摘要和标签 callout，还原 memo 正文
+     */
+    stripGeneratedContent(content: string): string {
+        const lines = content.split('\n');
+        const result: string[] = [];
+        let inGeneratedCallout = false;
+
+        for (const line of lines) {
+            if (/^> \[!abstract\]\+ 内容摘要$/.test(line) || /^> \[!info\]- 相关标签$/.test(line)) {
+                inGeneratedCallout = true;
+                continue;
+            }
+            if (inGeneratedCallout) {
+                if (line.startsWith('>')) {
+                    continue;
+                }
+                inGeneratedCallout = false;
+                if (!line.trim()) {
+                    continue;
                 }
             }
+            result.push(line);
         }
 
-        processedContent += mainContent;
-        return processedContent.trim();
+        // 标题后的空行由 formatMemoContent 插入
+        return result.join('\n').replace(/^(# .*)\n\n+/, '$1\n').trim();
     }
 
     private extractTitle(content: string): string | null {
@@ -72,48 +240,54 @@ export class ContentService {
         return `${weeklyDigestDir}/${fileName}`;
     }
 
-    private async ensureDirectoryExists(dirPath: string): Promise<void> {
-        if (!(await this.vault.adapter.exists(dirPath))) {
-            await this.vault.adapter.mkdir(dirPath);
-        }
-    }
-
-    async generateWeeklyDigest(memos: MemoItem[]): Promise<void> {
+    /**
+     * 按创建时间所在的周生成每周总结，返回生成的篇数。overwrite 为 false 时跳过已有总结的周
+     */
+    async generateWeeklyDigest(memos: MemoItem[], overwrite = false): Promise<number> {
         if (!this.aiEnabled) {
-            return;
+            return 0;
         }
 
         const suitableMemos = memos.filter(memo => this.isContentSuitableForAI(memo.content));
         if (suitableMemos.length === 0) {
-            return;
+            return 0;
         }
 
+        let generated = 0;
         const weekGroups = this.groupMemosByWeek(suitableMemos);
         
         for (const [weekKey, weekMemos] of Object.entries(weekGroups)) {
             const [year, week] = weekKey.split('-W');
             
-            if (await this.weeklyDigestExists(year, week)) {
+            if (!overwrite && await this.weeklyDigestExists(year, week)) {
                 continue;
             }
 
             const weeklyDigestDir = `${this.syncDirectory}/${year}/weekly`;
-            await this.ensureDirectoryExists(weeklyDigestDir);
+            await ensureDirectoryExists(this.vault.adapter, weeklyDigestDir);
 
             const contents = weekMemos.map(memo => memo.content);
-            const digest = await this.aiService.generateWeeklyDigest(contents);
+            const dateRange = this.getWeekDateRange(Number.parseInt(year, 10), Number.parseInt(week, 10));
+            const digest = await this.aiLimiter(() => this.aiService.generateWeeklyDigest(contents, dateRange, this.summaryLanguage));
             
             if (digest?.trim()) {
                 const weeklyContent = this.formatWeeklyDigest(digest, year, week, weekMemos.length);
                 const weeklyDigestPath = this.getWeeklyDigestPath(year, week);
                 
                 try {
-                    await this.vault.create(weeklyDigestPath, weeklyContent);
+                    const existing = this.vault.getAbstractFileByPath(weeklyDigestPath);
+                    if (existing instanceof TFile) {
+                        await this.vault.modify(existing, weeklyContent);
+                    } else {
+                        await this.vault.create(weeklyDigestPath, weeklyContent);
+                    }
+                    generated++;
                 } catch (error) {
                     console.error(`生成第 ${week} 周总结失败:`, error);
                 }
             }
         }
+        return generated;
     }
 
     private formatWeeklyDigest(digest: string, year: string, week: string, memoCount: number): string {
@@ -1,16 +1,77 @@
-import { TFile } from 'obsidian';
+import { TFile, moment, normalizePath } from 'obsidian';
 import type { Vault } from 'obsidian';
-import type { MemoItem } from '../models/settings';
-import type { MemosService } from './memos-service';
+import type { MemoItem, MetadataFormat, NoteLayout, OutputMode, ProcessedMemo } from '../models/settings';
+import { DEFAULT_SETTINGS } from '../models/settings';
+import type { MemoIndexEntry } from '../models/state';
+import type { ResourceService } from './resource-service';
+import type { ContentService } from './content-service';
+import type { MemoIndexService } from './index-service';
+import type { TemplateContext, TemplateService } from './template-service';
+import { formatDate, renderTemplate } from './template-service';
+import { hashContent } from '../utils/hash';
+import { ensureDirectoryExists, getParentPath, getRelativePath, sanitizeFileName } from '../utils/path';
+import { extractTags } from '../utils/tags';
+
+// 模板中 {{content}} 的前后标记，双向同步时据此取回 memo 正文
+const MEMO_CONTENT_START = '<!-- memo-content -->';
+const MEMO_CONTENT_END = '<!-- /memo-content -->';
+
+// 保存结果：新建、更新或跳过，以及笔记所在路径
+export type SaveStatus = 'created' | 'updated' | 'skipped';
+
+export interface SaveResult {
+    status: SaveStatus;
+    path: string;
+    // 下载失败、未写入笔记的资源及原因
+    failedResources?: string[];
+}
+
+export interface SaveOptions {
+    // 总是用 memo 内容覆盖已存在的笔记
+    force?: boolean;
+    // 新笔记的根目录，默认为同步目录
+    directory?: string;
+}
+
+// 日记核心插件的设置
+interface DailyNoteConfig {
+    folder: string;
+    format: string;
+    template: string;
+}
+
+// 日记中一条 memo 所占的行范围（含首尾标记行）
+interface DailyNoteBlock {
+    memoName: string;
+    created: string;
+    updated: string;
+    start: number;
+    end: number;
+}
+
+const DAILY_BLOCK_START = /^<!-- memo-id: (\S+) created: (\S+) updated: (\S+) -->\s*$/;
+const DAILY_BLOCK_END = '<!-- /memo-id -->';
 
 export class FileService {
+    // 尚未写入的新笔记已分配的路径（memo name -> 路径），预取资源与写入笔记使用同一路径
+    private newNotePaths = new Map<string, string>();
+
     constructor(
         private vault: Vault,
         private syncDirectory: string,
-        private memosService: MemosService
+        private resourceService: ResourceService,
+        private contentService: ContentService,
+        private index: MemoIndexService,
+        private updateExisting: boolean = false,
+        private metadataFormat: MetadataFormat = 'callout',
+        private templateService?: TemplateService,
+        private layout: NoteLayout = DEFAULT_SETTINGS,
+        private outputMode: OutputMode = 'file',
+        private dailyNoteHeading: string = DEFAULT_SETTINGS.dailyNoteHeading,
+        private dailyNoteIdPrefix: string = ''
     ) {}
 
-    private formatDateTime(date: Date, format: 'filename' | 'display' = 'display'): string {
+    private formatDateTime(date: Date, format: 'display' | 'iso' = 'display'): string {
         const year = date.getFullYear();
         const month = String(date.getMonth() + 1).padStart(2, '0');
         const day = String(date.getDate()).padStart(2, '0');
@@ -18,54 +79,18 @@ export class FileService {
         const minutes = String(date.getMinutes()).padStart(2, '0');
         const seconds = String(date.getSeconds()).padStart(2, '0');
 
-        if (format === 'filename') {
-            return `${year}-${month}-${day} ${hours}-${minutes}`;
+        if (format === 'iso') {
+            return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
         }
         return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
     }
 
-    private sanitizeFileName(fileName: string): string {
-        let sanitized = fileName.replace(/^[\\/:*?"<>|#\s]+/, '');
-        
-        sanitized = sanitized
-            .replace(/\s+/g, ' ')
-            .replace(/[\\/:*?"<>|#]/g, '')
-            .trim();
-
-        return sanitized || 'untitled';
-    }
-
-    private getRelativePath(fromPath: string, toPath: string): string {
-        const fromParts = fromPath.split('/');
-        const toParts = toPath.split('/');
-        fromParts.pop();
-
-        let i = 0;
-        while (i < fromParts.length && i < toParts.length && fromParts[i] === toParts[i]) {
-            i++;
-        }
-
-        const goBack = fromParts.length - i;
-        const relativePath = [
-            ...Array(goBack).fill('..'),
-            ...toParts.slice(i)
-        ].join('/');
-
-        return relativePath;
-    }
-
     private isImageFile(filename: string): boolean {
         const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'];
         const ext = filename.toLowerCase().split('.').pop();
         return ext ? imageExtensions.includes(`.${ext}`) : false;
     }
 
-    private async ensureDirectoryExists(dirPath: string): Promise<void> {
-        if (!(await this.vault.adapter.exists(dirPath))) {
-            await this.vault.adapter.mkdir(dirPath);
-        }
-    }
-
     private getContentPreview(content: string): string {
         let preview = content
             .replace(/^>\s*\[!.*?\].*$/gm, '')
@@ -106,105 +131,234 @@ export class FileService {
         return files;
     }
 
-    async isMemoExists(memoId: string): Promise<boolean> {
-        try {
-            const files = await this.getMemoFiles();
-            for (const file of files) {
-                const content = await this.vault.adapter.read(file);
-                if (content.includes(`> - ID: ${memoId}`)) {
-                    return true;
-                }
-            }
-            return false;
-        } catch (error) {
-            console.error('检查 memo 是否存在时出错:', error);
-            return false;
+    async findMemoFile(memoId: string): Promise<string | null> {
+        const entry = this.index.get(memoId);
+        if (!entry) {
+            return null;
         }
+        if (!(await this.vault.adapter.exists(entry.path))) {
+            // 索引项已失效
+            this.index.delete(memoId);
+            return null;
+        }
+        return entry.path;
     }
 
-    async saveMemoToFile(memo: MemoItem): Promise<void> {
-        try {
-            const exists = await this.isMemoExists(memo.name);
-            if (exists) {
-                console.log(`Memo ${memo.name} 已存在，跳过`);
-                return;
-            }
-
-            const date = new Date(memo.createTime);
-            const year = date.getFullYear();
-            const month = String(date.getMonth() + 1).padStart(2, '0');
-            
-            const yearDir = `${this.syncDirectory}/${year}`;
-            const monthDir = `${yearDir}/${month}`;
-            
-            await this.ensureDirectoryExists(yearDir);
-            await this.ensureDirectoryExists(monthDir);
-            
-            const contentPreview = memo.content 
-                ? this.getContentPreview(memo.content)
-                : this.sanitizeFileName(memo.name.replace('memos/', ''));
-            
-            const timeStr = this.formatDateTime(date, 'filename');
-            const fileName = this.sanitizeFileName(`${contentPreview} (${timeStr}).md`);
-            const filePath = `${monthDir}/${fileName}`;
-            
-            let content = memo.content || '';
-            content = content.replace(/\#([^\#\s]+)\#/g, '#$1');
-            
-            let documentContent = content;
-
-            if (memo.resources && memo.resources.length > 0) {
-                const images = memo.resources.filter(r => this.isImageFile(r.filename));
-                const otherFiles = memo.resources.filter(r => !this.isImageFile(r.filename));
-
-                if (images.length > 0) {
-                    documentContent += '\n\n';
-                    for (const image of images) {
-                        const resourceData = await this.memosService.downloadResource(image);
-                        if (resourceData) {
-                            const resourceDir = `${monthDir}/resources`;
-                            await this.ensureDirectoryExists(resourceDir);
-                            const localFilename = `${image.name.split('/').pop()}_${this.sanitizeFileName(image.filename)}`;
-                            const localPath = `${resourceDir}/${localFilename}`;
-                            
-                            await this.vault.adapter.writeBinary(localPath, resourceData);
-                            const relativePath = this.getRelativePath(filePath, localPath);
-                            documentContent += `![${image.filename}](${relativePath})\n`;
-                        }
-                    }
-                }
+    /**
+     * 列出所有已同步的 memo（memo name -> 笔记路径）
+     */
+    async getSyncedMemos(): Promise<Map<string, string>> {
+        return new Map(this.index.entries().map(([memoName, entry]) => [memoName, entry.path]));
+    }
 
-                if (otherFiles.length > 0) {
-                    documentContent += '\n\n### Attachments\n';
-                    for (const file of otherFiles) {
-                        const resourceData = await this.memosService.downloadResource(file);
-                        if (resourceData) {
-                            const resourceDir = `${monthDir}/resources`;
-                            await this.ensureDirectoryExists(resourceDir);
-                            const localFilename = `${file.name.split('/').pop()}_${this.sanitizeFileName(file.filename)}`;
-                            const localPath = `${resourceDir}/${localFilename}`;
-                            
-                            await this.vault.adapter.writeBinary(localPath, resourceData);
-                            const relativePath = this.getRelativePath(filePath, localPath);
-                            documentContent += `- [${file.filename}](${relativePath})\n`;
-                        }
-                    }
-                }
+    /**
+     * 扫描同步目录重建 memo 索引，返回索引的 memo 数量
+     */
+    async rebuildIndex(): Promise<number> {
+        const entries = new Map<string, MemoIndexEntry>();
+        for (const file of await this.getMemoFiles()) {
+            const content = await this.vault.adapter.read(file);
+            const memoId = this.getMemoId(content);
+            if (!memoId) {
+                continue;
             }
+            const storedTime = this.getStoredUpdateTime(content);
+            const uid = this.index.get(memoId)?.uid;
+            entries.set(memoId, {
+                path: file,
+                hash: await hashContent(this.getMemoContent(content)),
+                updateTime: storedTime !== null ? new Date(storedTime).toISOString() : '',
+                ...(uid ? { uid } : {})
+            });
+        }
+        this.index.replaceAll(entries);
+        console.log(`memo 索引已重建，共 ${entries.size} 条`);
+        return entries.size;
+    }
+
+    async isMemoExists(memoId: string): Promise<boolean> {
+        return (await this.findMemoFile(memoId)) !== null;
+    }
+
+    // 笔记开头的 YAML frontmatter（不含分隔线）
+    private getFrontmatter(content: string): string | null {
+        const match = content.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
+        return match ? match[1] : null;
+    }
+
+    private getFrontmatterValue(content: string, key: string): string | null {
+        const frontmatter = this.getFrontmatter(content);
+        if (frontmatter === null) {
+            return null;
+        }
+        const match = frontmatter.match(new RegExp(`^${key}:[ \\t]*(.+?)\\s*$`, 'm'));
+        return match ? match[1].replace(/^(["'])(.*)\1$/, '$2') : null;
+    }
+
+    getMemoId(content: string): string | null {
+        // 兼容 callout 与 frontmatter 两种格式
+        const match = content.match(/^> - ID: (.+?)\s*$/m);
+        return match ? match[1] : this.getFrontmatterValue(content, 'memo_id');
+    }
+
+    /**
+     * 去掉同步时附加的图片、附件列表和 Memo Properties，得到笔记正文
+     */
+    extractMemoBody(content: string): string {
+        let body = content.replace(/^---\n[\s\S]*?\n---(?:\n|$)/, '');
+        const propertiesIndex = body.search(/\n*---\n> \[!note\]- Memo Properties\n/);
+        if (propertiesIndex >= 0) {
+            body = body.slice(0, propertiesIndex);
+        }
+
+        // 同步时附加的资源链接指向库内文件，可能是相对路径的 Markdown 链接或 wikilink
+        body = body.replace(/\n*### Attachments\n(?:- (?:\[[^\]]*\]\((?![a-z]+:\/\/)[^)]*\)|\[\[[^\]]*\]\])\n?)*$/, '');
+        body = body.replace(/(?:\n*!(?:\[[^\]]*\]\((?![a-z]+:\/\/)[^)]*\)|\[\[[^\]]*\]\]))+\s*$/, '');
+        return body.trim();
+    }
 
-            const tags = (memo.content || '').match(/\#([^\#\s]+)(?:\#|\s|$)/g) || [];
-            const cleanTags = tags.map(tag => tag.replace(/^\#|\#$/g, '').trim());
-            
-            documentContent += '\n\n---\n';
-            documentContent += '> [!note]- Memo Properties\n';
-            documentContent += `> - Created: ${this.formatDateTime(new Date(memo.createTime))}\n`;
-            documentContent += `> - Updated: ${this.formatDateTime(new Date(memo.updateTime))}\n`;
-            documentContent += '> - Type: memo\n';
-            if (cleanTags.length > 0) {
-                documentContent += `> - Tags: [${cleanTags.join(', ')}]\n`;
+    isMarkedArchived(content: string): boolean {
+        return /^> - Archived: true\s*$/m.test(content) || this.getFrontmatterValue(content, 'archived') === 'true';
+    }
+
+    /**
+     * 在 Memo Properties 或 frontmatter 中写入 archived 属性
+     */
+    async markArchived(filePath: string): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(filePath);
+        if (!(file instanceof TFile)) {
+            return;
+        }
+        const content = await this.vault.read(file);
+        if (this.isMarkedArchived(content)) {
+            return;
+        }
+        let updated = content.replace(/^(> - ID: .*)$/m, '$1\n> - Archived: true');
+        if (this.getFrontmatterValue(content, 'memo_id') !== null) {
+            updated = updated.replace(/^(---\n[\s\S]*?)\n---(\n|$)/, '$1\narchived: true\n---$2');
+        }
+        if (updated !== content) {
+            await this.vault.modify(file, updated);
+        }
+    }
+
+    /**
+     * 笔记中属于 memo 本身的内容（去掉 AI callout、资源列表和属性）
+     */
+    getMemoContent(noteContent: string): string {
+        const marked = this.extractMarkedContent(noteContent);
+        if (marked !== null) {
+            return marked;
+        }
+        return this.contentService.stripGeneratedContent(this.extractMemoBody(noteContent));
+    }
+
+    /**
+     * 能否从笔记中取回 memo 正文。启用模板时只有带 {{content}} 标记的笔记可以回写，否则会把整篇模板内容写回 Memos
+     */
+    hasRecoverableContent(noteContent: string): boolean {
+        return !this.templateService?.isEnabled || this.extractMarkedContent(noteContent) !== null;
+    }
+
+    private extractMarkedContent(noteContent: string): string | null {
+        const start = noteContent.indexOf(MEMO_CONTENT_START);
+        const end = start >= 0 ? noteContent.indexOf(MEMO_CONTENT_END, start) : -1;
+        return end >= 0 ? noteContent.slice(start + MEMO_CONTENT_START.length, end).trim() : null;
+    }
+
+    getStoredUpdateTime(content: string): number | null {
+        return this.getStoredTime(content, 'Updated', 'updated');
+    }
+
+    // Memo Properties 或 frontmatter 中记录的时间
+    private getStoredTime(content: string, calloutKey: string, frontmatterKey: string): number | null {
+        const datePattern = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2}):(\d{2})$/;
+        const calloutMatch = content.match(new RegExp(`^> - ${calloutKey}: (.+?)\\s*$`, 'm'));
+        const stored = calloutMatch ? calloutMatch[1] : this.getFrontmatterValue(content, frontmatterKey);
+        const match = stored?.match(datePattern);
+        if (!match) {
+            return null;
+        }
+        const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+        return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+    }
+
+    /**
+     * 从笔记的 Memo Properties 或 frontmatter 还原计算笔记路径所需的 memo 字段，不请求服务端。缺少创建时间时返回 null
+     */
+    readMemoFromNote(memoName: string, noteContent: string): MemoItem | null {
+        const createTime = this.getStoredTime(noteContent, 'Created', 'created');
+        if (createTime === null) {
+            return null;
+        }
+        const updateTime = this.getStoredUpdateTime(noteContent) ?? createTime;
+        const visibilityMatch = noteContent.match(/^> - Visibility: (.+?)\s*$/m);
+        const visibility = visibilityMatch ? visibilityMatch[1] : this.getFrontmatterValue(noteContent, 'visibility');
+        return {
+            name: memoName,
+            uid: this.index.get(memoName)?.uid || '',
+            content: this.getMemoContent(noteContent),
+            visibility: (visibility || 'private').toUpperCase(),
+            createTime: new Date(createTime).toISOString(),
+            updateTime: new Date(updateTime).toISOString(),
+            displayTime: new Date(createTime).toISOString(),
+            creator: this.getFrontmatterValue(noteContent, 'creator') || '',
+            rowStatus: '',
+            pinned: this.getFrontmatterValue(noteContent, 'pinned') === 'true',
+            resources: [],
+            tags: []
+        };
+    }
+
+    isMemoUpdated(memo: MemoItem, existingContent: string): boolean {
+        const storedTime = this.getStoredUpdateTime(existingContent);
+        if (storedTime === null) {
+            return true;
+        }
+        // Updated 属性只精确到秒
+        const memoTime = Math.floor(new Date(memo.updateTime).getTime() / 1000) * 1000;
+        return memoTime > storedTime;
+    }
+
+    async setStoredUpdateTime(filePath: string, updateTime: string): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(filePath);
+        if (!(file instanceof TFile)) {
+            throw new Error(`文件不存在: ${filePath}`);
+        }
+        const content = await this.vault.read(file);
+        const date = new Date(updateTime);
+        let updated = content.replace(/^> - Updated: .*$/m, `> - Updated: ${this.formatDateTime(date)}`);
+        const frontmatter = this.getFrontmatter(updated);
+        if (frontmatter !== null && /^updated:/m.test(frontmatter)) {
+            const newFrontmatter = frontmatter.replace(/^updated:.*$/m, `updated: ${this.formatDateTime(date, 'iso')}`);
+            updated = `---\n${newFrontmatter}${updated.slice('---\n'.length + frontmatter.length)}`;
+        }
+        if (updated !== content) {
+            await this.vault.modify(file, updated);
+        }
+    }
+
+    /**
+     * 保存 memo 到笔记。已存在的笔记保持原路径，新笔记按目录与文件名规则放入 directory 下；日记模式下追加到当天的日记
+     */
+    async saveMemoToFile(memo: MemoItem | ProcessedMemo, options: SaveOptions = {}): Promise<SaveResult> {
+        const { force = false, directory = this.syncDirectory } = options;
+        if (this.outputMode === 'daily') {
+            return this.saveMemoToDailyNote(memo, force);
+        }
+        try {
+            const { path: existingPath, skipReason } = await this.findExistingNote(memo, force);
+            if (existingPath && skipReason) {
+                console.log(`Memo ${memo.name} ${skipReason}，跳过`);
+                return { status: 'skipped', path: existingPath };
             }
-            documentContent += `> - ID: ${memo.name}\n`;
-            documentContent += `> - Visibility: ${memo.visibility.toLowerCase()}\n`;
+
+            // 已存在的笔记保持原路径不变，避免破坏反向链接
+            const filePath = existingPath || await this.getNewFilePath(memo, directory);
+            const noteDir = getParentPath(filePath);
+            await ensureDirectoryExists(this.vault.adapter, noteDir);
+            const failedResources: string[] = [];
+            const documentContent = await this.buildDocumentContent(memo, filePath, noteDir, failedResources);
 
             try {
                 const exists = await this.vault.adapter.exists(filePath);
@@ -217,14 +371,518 @@ export class FileService {
                     }
                 } else {
                     await this.vault.create(filePath, documentContent);
+                    this.newNotePaths.delete(memo.name);
                 }
             } catch (error) {
                 console.error(`Failed to save memo to file: ${filePath}`, error);
                 throw new Error(`Failed to save memo: ${error.message}`);
             }
+
+            this.index.set(memo.name, {
+                path: filePath,
+                hash: await hashContent(this.getMemoContent(documentContent)),
+                updateTime: memo.updateTime,
+                uid: memo.uid
+            });
+
+            return { status: existingPath ? 'updated' : 'created', path: filePath, failedResources };
         } catch (error) {
             console.error('保存 memo 到文件时出错:', error);
             throw new Error(`Failed to save memo: ${error.message}`);
         }
     }
+
+    // 已同步的笔记路径，以及不需要写入时的原因
+    private async findExistingNote(memo: MemoItem, force: boolean): Promise<{ path: string | null; skipReason?: string }> {
+        const existingPath = await this.findMemoFile(memo.name);
+        if (!existingPath || force) {
+            return { path: existingPath };
+        }
+        if (!this.updateExisting) {
+            return { path: existingPath, skipReason: '已存在' };
+        }
+
+        const indexedTime = this.index.get(memo.name)?.updateTime;
+        const isUpdated = indexedTime
+            ? new Date(memo.updateTime).getTime() > new Date(indexedTime).getTime()
+            : this.isMemoUpdated(memo, await this.vault.adapter.read(existingPath));
+        return isUpdated ? { path: existingPath } : { path: existingPath, skipReason: '没有更新' };
+    }
+
+    /**
+     * 保存时是否会跳过这条 memo（笔记或日记中已有且不需要更新）
+     */
+    async isSaveSkipped(memo: MemoItem, options: SaveOptions = {}): Promise<boolean> {
+        const { force = false } = options;
+        if (this.outputMode === 'daily') {
+            const { lines } = await this.readDailyNote(memo);
+            const existing = this.findDailyNoteBlocks(lines).find(block => block.memoName === this.getDailyNoteMemoKey(memo));
+            return this.isDailyNoteBlockSkipped(memo, existing, force);
+        }
+        const { path: existingPath, skipReason } = await this.findExistingNote(memo, force);
+        return !!existingPath && !!skipReason;
+    }
+
+    /**
+     * 提前获取 memo 的资源文件，之后保存时直接使用本地文件。不需要写入的 memo 不会下载
+     */
+    async prefetchResources(memo: MemoItem, options: SaveOptions = {}): Promise<void> {
+        if (!memo.resources || memo.resources.length === 0) {
+            return;
+        }
+        const { force = false, directory = this.syncDirectory } = options;
+
+        if (this.outputMode === 'daily') {
+            const { filePath, lines } = await this.readDailyNote(memo);
+            const existing = this.findDailyNoteBlocks(lines).find(block => block.memoName === this.getDailyNoteMemoKey(memo));
+            if (!this.isDailyNoteBlockSkipped(memo, existing, force)) {
+                await this.downloadResources(memo, this.syncDirectory, filePath);
+            }
+            return;
+        }
+
+        const { path: existingPath, skipReason } = await this.findExistingNote(memo, force);
+        if (skipReason) {
+            return;
+        }
+        const filePath = existingPath || await this.getNewFilePath(memo, directory);
+        await this.downloadResources(memo, getParentPath(filePath), filePath);
+    }
+
+    private async getDailyNoteConfig(): Promise<DailyNoteConfig> {
+        const config: DailyNoteConfig = { folder: '', format: 'YYYY-MM-DD', template: '' };
+        const configPath = `${this.vault.configDir}/daily-notes.json`;
+        if (await this.vault.adapter.exists(configPath)) {
+            try {
+                const saved = JSON.parse(await this.vault.adapter.read(configPath));
+                config.folder = (saved.folder || '').trim();
+                config.format = saved.format || config.format;
+                config.template = saved.template || '';
+            } catch (error) {
+                console.error('读取日记插件设置失败:', error);
+            }
+        }
+        return config;
+    }
+
+    // 新建日记时套用日记插件的模板，并替换其中的 {{title}}、{{date}}、{{time}}
+    private async getDailyNoteInitialContent(config: DailyNoteConfig, date: Date): Promise<string> {
+        if (!config.template) {
+            return '';
+        }
+        const templatePath = normalizePath(config.template.endsWith('.md') ? config.template : `${config.template}.md`);
+        const file = this.vault.getAbstractFileByPath(templatePath);
+        if (!(file instanceof TFile)) {
+            return '';
+        }
+        const title = moment(date).format(config.format);
+        return (await this.vault.cachedRead(file))
+            .replace(/{{\s*title\s*}}/gi, title)
+            .replace(/{{\s*(date|time)\s*(?::(.+?))?\s*}}/gi, (_, type: string, format?: string) =>
+                format ? moment(date).format(format.trim()) : type.toLowerCase() === 'date' ? title : moment().format('HH:mm'));
+    }
+
+    private findDailyNoteBlocks(lines: string[]): DailyNoteBlock[] {
+        const blocks: DailyNoteBlock[] = [];
+        for (let i = 0; i < lines.length; i++) {
+            const match = lines[i].match(DAILY_BLOCK_START);
+            if (!match) {
+                continue;
+            }
+            let end = i + 1;
+            while (end < lines.length && lines[end].trim() !== DAILY_BLOCK_END) {
+                end++;
+            }
+            if (end >= lines.length) {
+                // 缺少结束标记时只把标记行当作该 memo 的内容
+                end = i;
+            }
+            blocks.push({ memoName: match[1], created: match[2], updated: match[3], start: i, end });
+            i = end;
+        }
+        return blocks;
+    }
+
+    // 多个服务器写入同一篇日记时，ID 标记带上服务器前缀以免混淆
+    private getDailyNoteMemoKey(memo: MemoItem): string {
+        return `${this.dailyNoteIdPrefix}${memo.name}`;
+    }
+
+    // 日记中的 memo：隐藏的 ID 标记、时间和内容，资源放在同步目录下
+    private async buildDailyNoteBlock(memo: MemoItem, filePath: string, failedResources: string[]): Promise<string[]> {
+        const localPaths = await this.downloadResources(memo, this.syncDirectory, filePath, failedResources);
+        const content = this.buildDefaultContent(memo, filePath, localPaths).trim();
+        return [
+            `<!-- memo-id: ${this.getDailyNoteMemoKey(memo)} created: ${memo.createTime} updated: ${memo.updateTime} -->`,
+            `**${formatDate(new Date(memo.createTime), 'HH:mm')}**`,
+            ...(content ? content.split('\n') : []),
+            DAILY_BLOCK_END
+        ];
+    }
+
+    // 在标题下按创建时间顺序插入，标题不存在时追加到日记末尾
+    private insertDailyNoteBlock(lines: string[], block: string[], memo: MemoItem) {
+        const heading = this.dailyNoteHeading.trim();
+        let headingIndex = lines.findIndex(line => line.trim() === heading);
+        if (headingIndex < 0) {
+            while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+                lines.pop();
+            }
+            if (lines.length > 0) {
+                lines.push('');
+            }
+            lines.push(heading);
+            headingIndex = lines.length - 1;
+        }
+
+        const blocks = this.findDailyNoteBlocks(lines);
+        const level = (heading.match(/^#{1,6}(?=\s)/) || [''])[0].length;
+        let sectionEnd = lines.length;
+        for (let i = headingIndex + 1; i < lines.length && level > 0; i++) {
+            if (blocks.some(b => i >= b.start && i <= b.end)) {
+                continue;
+            }
+            const match = lines[i].match(/^(#{1,6})\s/);
+            if (match && match[1].length <= level) {
+                sectionEnd = i;
+                break;
+            }
+        }
+
+        const createdTime = new Date(memo.createTime).getTime();
+        const later = blocks.find(b => b.start > headingIndex && b.start < sectionEnd
+            && new Date(b.created).getTime() > createdTime);
+        if (later) {
+            lines.splice(later.start, 0, ...block, '');
+            return;
+        }
+
+        let insertAt = sectionEnd;
+        while (insertAt > headingIndex + 1 && lines[insertAt - 1].trim() === '') {
+            insertAt--;
+        }
+        lines.splice(insertAt, 0, '', ...block);
+        const next = insertAt + 1 + block.length;
+        if (next < lines.length && lines[next].trim() !== '') {
+            lines.splice(next, 0, '');
+        }
+    }
+
+    // memo 创建日期对应的日记；日记不存在时为按模板生成的初始内容
+    private async readDailyNote(memo: MemoItem): Promise<{ filePath: string; file: TFile | null; lines: string[] }> {
+        const config = await this.getDailyNoteConfig();
+        const created = new Date(memo.createTime);
+        const filePath = normalizePath(`${config.folder}/${moment(created).format(config.format)}.md`);
+        const abstractFile = this.vault.getAbstractFileByPath(filePath);
+        const file = abstractFile instanceof TFile ? abstractFile : null;
+        const noteContent = file
+            ? await this.vault.read(file)
+            : await this.getDailyNoteInitialContent(config, created);
+        return { filePath, file, lines: noteContent.split('\n') };
+    }
+
+    private isDailyNoteBlockSkipped(memo: MemoItem, existing: DailyNoteBlock | undefined, force: boolean): boolean {
+        if (!existing || force) {
+            return false;
+        }
+        const isUpdated = new Date(memo.updateTime).getTime() > new Date(existing.updated).getTime();
+        return !this.updateExisting || !isUpdated;
+    }
+
+    /**
+     * 把 memo 追加到创建日期对应的日记中；已存在的 memo 按 ID 标记原地更新
+     */
+    private async saveMemoToDailyNote(memo: MemoItem, force: boolean): Promise<SaveResult> {
+        try {
+            const { filePath, file, lines } = await this.readDailyNote(memo);
+            const existing = this.findDailyNoteBlocks(lines).find(block => block.memoName === this.getDailyNoteMemoKey(memo));
+            if (this.isDailyNoteBlockSkipped(memo, existing, force)) {
+                console.log(`Memo ${memo.name} 已在日记中，跳过`);
+                return { status: 'skipped', path: filePath };
+            }
+
+            const failedResources: string[] = [];
+            const block = await this.buildDailyNoteBlock(memo, filePath, failedResources);
+            if (existing) {
+                lines.splice(existing.start, existing.end - existing.start + 1, ...block);
+            } else {
+                this.insertDailyNoteBlock(lines, block, memo);
+            }
+
+            const documentContent = lines.join('\n');
+            if (file) {
+                await this.vault.modify(file, documentContent);
+            } else {
+                const parent = getParentPath(filePath);
+                if (parent) {
+                    await ensureDirectoryExists(this.vault.adapter, parent);
+                }
+                await this.vault.create(filePath, documentContent);
+            }
+            return { status: existing ? 'updated' : 'created', path: filePath, failedResources };
+        } catch (error) {
+            console.error('保存 memo 到日记时出错:', error);
+            throw new Error(`Failed to save memo: ${error.message}`);
+        }
+    }
+
+    // 目录与文件名规则可用的占位符
+    private buildPathContext(memo: MemoItem): TemplateContext {
+        const created = new Date(memo.createTime);
+        const tags = memo.tags && memo.tags.length > 0 ? memo.tags : extractTags(memo.content);
+        const context: TemplateContext = {
+            created,
+            uid: memo.uid || memo.name.split('/').pop() || '',
+            tag: tags[0] || '',
+            title: memo.content
+                ? this.getContentPreview(memo.content)
+                : sanitizeFileName(memo.name.replace('memos/', '')),
+            visibility: memo.visibility.toLowerCase()
+        };
+        for (const token of ['YYYY', 'YY', 'MM', 'DD', 'HH', 'mm', 'ss']) {
+            context[token] = formatDate(created, token);
+        }
+        return context;
+    }
+
+    /**
+     * 按目录与文件名规则计算 memo 笔记应在的路径
+     */
+    getNotePath(memo: MemoItem, directory: string = this.syncDirectory): string {
+        const context = this.buildPathContext(memo);
+        const folders = renderTemplate(this.layout.folderPattern, context)
+            .split('/')
+            .map(part => part.replace(/[\\:*?"<>|#]/g, '').trim())
+            .filter(part => part && part !== '.' && part !== '..');
+        const fileName = sanitizeFileName(`${renderTemplate(this.layout.fileNamePattern, context)}.md`);
+        return [directory, ...folders, fileName].join('/');
+    }
+
+    // 目标路径已被其他笔记占用或已分配给其他 memo 时，在文件名后加上 memo uid
+    private async getNewFilePath(memo: MemoItem, directory: string): Promise<string> {
+        const assigned = this.newNotePaths.get(memo.name);
+        if (assigned && assigned.startsWith(`${directory}/`)) {
+            return assigned;
+        }
+        let filePath = this.getNotePath(memo, directory);
+        const isTaken = Array.from(this.newNotePaths.values()).includes(filePath)
+            || await this.vault.adapter.exists(filePath);
+        if (isTaken) {
+            const uid = sanitizeFileName(memo.uid || memo.name.split('/').pop() || '');
+            filePath = filePath.replace(/\.md$/, ` ${uid}.md`);
+        }
+        this.newNotePaths.set(memo.name, filePath);
+        return filePath;
+    }
+
+    // 获取 memo 的资源文件，返回资源的本地路径（resource name -> 路径）
+    // 单个资源下载失败不影响其余资源和笔记写入，失败原因记入 failures
+    private async downloadResources(memo: MemoItem, noteDir: string, notePath: string, failures: string[] = []): Promise<Map<string, string>> {
+        const localPaths = new Map<string, string>();
+        if (!memo.resources || memo.resources.length === 0) {
+            return localPaths;
+        }
+
+        const images = memo.resources.filter(r => this.isImageFile(r.filename));
+        const otherFiles = memo.resources.filter(r => !this.isImageFile(r.filename));
+        const resources = [...images, ...otherFiles];
+        const paths = await Promise.all(resources.map(async resource => {
+            try {
+                const localPath = await this.resourceService.getResource(resource, noteDir, notePath);
+                if (!localPath) {
+                    failures.push(`资源 ${resource.filename} 下载失败`);
+                }
+                return localPath;
+            } catch (error) {
+                console.error(`下载资源 ${resource.filename} 时出错:`, error);
+                failures.push(`资源 ${resource.filename} 下载失败：${error.message}`);
+                return null;
+            }
+        }));
+        resources.forEach((resource, i) => {
+            const localPath = paths[i];
+            if (localPath) {
+                localPaths.set(resource.name, localPath);
+            }
+        });
+        return localPaths;
+    }
+
+    private async buildDocumentContent(memo: MemoItem | ProcessedMemo, filePath: string, noteDir: string, failedResources: string[]): Promise<string> {
+        const localPaths = await this.downloadResources(memo, noteDir, filePath, failedResources);
+        const resourcePaths = Array.from(localPaths.values());
+
+        let documentContent = this.buildDefaultContent(memo, filePath, localPaths);
+        if ('enrichment' in memo && this.templateService?.isEnabled) {
+            const template = await this.templateService.loadTemplate();
+            if (template !== null) {
+                const context = this.buildTemplateContext(memo, filePath, localPaths);
+                documentContent = this.templateService.render(template, context).trim();
+            }
+        }
+
+        return this.attachMemoProperties(documentContent, memo, resourcePaths);
+    }
+
+    // 默认布局：处理后的内容、图片、附件列表
+    private buildDefaultContent(memo: MemoItem, filePath: string, localPaths: Map<string, string>): string {
+        let content = memo.content || '';
+        content = content.replace(/\#([^\#\s]+)\#/g, '#$1');
+        
+        let documentContent = content;
+
+        if (memo.resources && memo.resources.length > 0) {
+            const images = memo.resources.filter(r => this.isImageFile(r.filename));
+            const otherFiles = memo.resources.filter(r => !this.isImageFile(r.filename));
+
+            if (images.length > 0) {
+                documentContent += '\n\n';
+                for (const image of images) {
+                    const localPath = localPaths.get(image.name);
+                    if (localPath) {
+                        documentContent += `${this.resourceService.formatLink(localPath, filePath, image.filename, true)}\n`;
+                    }
+                }
+            }
+
+            if (otherFiles.length > 0) {
+                documentContent += '\n\n### Attachments\n';
+                for (const file of otherFiles) {
+                    const localPath = localPaths.get(file.name);
+                    if (localPath) {
+                        documentContent += `- ${this.resourceService.formatLink(localPath, filePath, file.filename, false)}\n`;
+                    }
+                }
+            }
+        }
+
+        return documentContent;
+    }
+
+    private buildTemplateContext(memo: ProcessedMemo, filePath: string, localPaths: Map<string, string>): TemplateContext {
+        const { title, body, summary, aiTags } = memo.enrichment;
+        const convertTags = (text: string) => text.replace(/\#([^\#\s]+)\#/g, '#$1');
+        const originalContent = convertTags(title ? `# ${title}\n${body}` : body);
+        const memoTags = memo.tags && memo.tags.length > 0 ? memo.tags : extractTags(originalContent);
+
+        const resources: TemplateContext[] = (memo.resources || [])
+            .filter(resource => localPaths.has(resource.name))
+            .map(resource => {
+                const path = localPaths.get(resource.name) as string;
+                const link = getRelativePath(filePath, path);
+                const isImage = this.isImageFile(resource.filename);
+                const embed = this.resourceService.formatLink(path, filePath, resource.filename, isImage);
+                return {
+                    text: embed,
+                    filename: resource.filename,
+                    type: resource.type,
+                    path,
+                    link,
+                    embed,
+                    isImage
+                };
+            });
+
+        return {
+            id: memo.name,
+            uid: memo.uid,
+            title: title || '',
+            content: `${MEMO_CONTENT_START}\n${originalContent}\n${MEMO_CONTENT_END}`,
+            body: convertTags(body),
+            summary,
+            tags: Array.from(new Set([...memoTags, ...aiTags])).map(tag => `#${tag}`),
+            memo_tags: memoTags.map(tag => `#${tag}`),
+            ai_tags: aiTags.map(tag => `#${tag}`),
+            resources,
+            images: resources.filter(resource => resource.isImage),
+            attachments: resources.filter(resource => !resource.isImage),
+            visibility: memo.visibility.toLowerCase(),
+            pinned: memo.pinned,
+            creator: memo.creator,
+            created: new Date(memo.createTime),
+            updated: new Date(memo.updateTime)
+        };
+    }
+
+    /**
+     * 按元数据格式设置，把 memo 属性写入笔记（末尾的 callout 和/或开头的 frontmatter）
+     */
+    attachMemoProperties(noteContent: string, memo: MemoItem, resourcePaths: string[] = []): string {
+        let documentContent = noteContent;
+        if (this.metadataFormat !== 'frontmatter') {
+            documentContent += this.buildPropertiesBlock(memo);
+        }
+        if (this.metadataFormat !== 'callout') {
+            documentContent = this.mergeFrontmatter(documentContent, this.buildFrontmatterFields(memo, resourcePaths));
+        }
+        return documentContent;
+    }
+
+    private formatYamlValue(value: string): string {
+        return /^[^\s:#\[\]{},"'&*!|>%@`][^:#\[\]{},"]*$/.test(value) && value.trim() === value
+            ? value
+            : JSON.stringify(value);
+    }
+
+    private formatYamlList(values: string[]): string[] {
+        return values.map(value => `  - ${this.formatYamlValue(value)}`);
+    }
+
+    // frontmatter 字段：key -> 对应的 YAML 行
+    private buildFrontmatterFields(memo: MemoItem, resourcePaths: string[]): Array<[string, string[]]> {
+        const tags = extractTags(memo.content);
+        const fields: Array<[string, string[]]> = [
+            ['created', [`created: ${this.formatDateTime(new Date(memo.createTime), 'iso')}`]],
+            ['updated', [`updated: ${this.formatDateTime(new Date(memo.updateTime), 'iso')}`]],
+            ['type', ['type: memo']],
+            ['memo_id', [`memo_id: ${this.formatYamlValue(memo.name)}`]],
+            ['visibility', [`visibility: ${memo.visibility.toLowerCase()}`]],
+            ['pinned', [`pinned: ${memo.pinned ? 'true' : 'false'}`]]
+        ];
+        if (tags.length > 0) {
+            fields.push(['tags', ['tags:', ...this.formatYamlList(tags)]]);
+        }
+        if (memo.creator) {
+            fields.push(['creator', [`creator: ${this.formatYamlValue(memo.creator)}`]]);
+        }
+        if (resourcePaths.length > 0) {
+            fields.push(['resources', ['resources:', ...this.formatYamlList(resourcePaths.map(path => `[[${path}]]`))]]);
+        }
+        return fields;
+    }
+
+    // 已有 frontmatter 时只补充其中没有的字段，否则在笔记开头新建
+    private mergeFrontmatter(noteContent: string, fields: Array<[string, string[]]>): string {
+        const existing = this.getFrontmatter(noteContent);
+        if (existing === null) {
+            const lines = fields.flatMap(([, fieldLines]) => fieldLines);
+            return `---\n${lines.join('\n')}\n---\n\n${noteContent}`;
+        }
+
+        const missing = fields
+            .filter(([key]) => !new RegExp(`^${key}:`, 'm').test(existing))
+            .flatMap(([, fieldLines]) => fieldLines);
+        if (missing.length === 0) {
+            return noteContent;
+        }
+        const frontmatterEnd = existing.length + '---\n'.length;
+        return `${noteContent.slice(0, frontmatterEnd)}\n${missing.join('\n')}${noteContent.slice(frontmatterEnd)}`;
+    }
+
+    private buildPropertiesBlock(memo: MemoItem): string {
+        const cleanTags = extractTags(memo.content);
+        
+        let documentContent = '\n\n---\n';
+        documentContent += '> [!note]- Memo Properties\n';
+        documentContent += `> - Created: ${this.formatDateTime(new Date(memo.createTime))}\n`;
+        documentContent += `> - Updated: ${this.formatDateTime(new Date(memo.updateTime))}\n`;
+        documentContent += '> - Type: memo\n';
+        if (cleanTags.length > 0) {
+            documentContent += `> - Tags: [${cleanTags.join(', ')}]\n`;
+        }
+        documentContent += `> - ID: ${memo.name}\n`;
+        documentContent += `> - Visibility: ${memo.visibility.toLowerCase()}\n`;
+
+        return documentContent;
+    }
 } 
\ No newline at end of file
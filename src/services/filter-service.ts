@@ -0,0 +1,100 @@
+import type { MemoItem, SyncFilters } from '../models/settings';
+import type { ServerFilter } from './memos-adapter';
+import { extractTags } from '../utils/tags';
+
+/**
+ * 按设置的筛选条件决定哪些 memo 需要同步
+ */
+export class FilterService {
+    private contentPattern: RegExp | null;
+    private excludeContentPattern: RegExp | null;
+
+    constructor(private filters: SyncFilters) {
+        this.contentPattern = this.compilePattern(filters.contentPattern);
+        this.excludeContentPattern = this.compilePattern(filters.excludeContentPattern);
+    }
+
+    private compilePattern(pattern: string): RegExp | null {
+        if (!pattern) {
+            return null;
+        }
+        try {
+            return new RegExp(pattern, 'i');
+        } catch (error) {
+            console.error(`无效的筛选正则表达式: ${pattern}`, error);
+            return null;
+        }
+    }
+
+    /**
+     * 服务端能处理的部分条件，用于减少拉取的数据量。服务端结果仍会再经过 matches 检查
+     */
+    get serverFilter(): ServerFilter {
+        const { includeTags, visibilities, pinned } = this.filters;
+        const filter: ServerFilter = {};
+        if (visibilities.length > 0) {
+            filter.visibilities = visibilities.map(visibility => visibility.toUpperCase());
+        }
+        // 服务端只支持按单个标签筛选
+        if (includeTags.length === 1) {
+            filter.tag = includeTags[0];
+        }
+        if (pinned === 'pinned') {
+            filter.pinned = true;
+        }
+        return filter;
+    }
+
+    matches(memo: MemoItem): boolean {
+        const { includeTags, excludeTags, visibilities, creators, pinned } = this.filters;
+        const tags = (memo.tags && memo.tags.length > 0 ? memo.tags : extractTags(memo.content))
+            .map(tag => tag.toLowerCase());
+        // 父标签同时匹配其子标签，如 work 匹配 work/project
+        const hasTag = (wanted: string) => {
+            const target = wanted.replace(/^#/, '').toLowerCase();
+            return tags.some(tag => tag === target || tag.startsWith(`${target}/`));
+        };
+
+        if (includeTags.length > 0 && !includeTags.some(hasTag)) {
+            return false;
+        }
+        if (excludeTags.some(hasTag)) {
+            return false;
+        }
+        if (visibilities.length > 0 && !visibilities.some(visibility => visibility.toUpperCase() === memo.visibility.toUpperCase())) {
+            return false;
+        }
+        if (creators.length > 0 && !creators.some(creator => creator === memo.creator || `users/${creator}` === memo.creator)) {
+            return false;
+        }
+        if (pinned !== 'any' && memo.pinned !== (pinned === 'pinned')) {
+            return false;
+        }
+        if (this.contentPattern && !this.contentPattern.test(memo.content)) {
+            return false;
+        }
+        if (this.excludeContentPattern && this.excludeContentPattern.test(memo.content)) {
+            return false;
+        }
+        return this.isInDateRange(new Date(memo.createTime));
+    }
+
+    private isInDateRange(created: Date): boolean {
+        const parseDate = (value: string) => {
+            const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+            return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+        };
+        const after = parseDate(this.filters.createdAfter);
+        if (after && created.getTime() < after.getTime()) {
+            return false;
+        }
+        const before = parseDate(this.filters.createdBefore);
+        if (before) {
+            before.setDate(before.getDate() + 1);
+            if (created.getTime() >= before.getTime()) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
@@ -0,0 +1,186 @@
+import { TFolder, moment, normalizePath } from 'obsidian';
+import type { Vault } from 'obsidian';
+import type { SyncRunItem, SyncRunRecord } from '../models/state';
+import type { SaveResult } from './file-service';
+import { sanitizeFileName } from '../utils/path';
+
+export const SYNC_RUN_STATUS_LABELS: Record<SyncRunRecord['status'], string> = {
+    success: '成功',
+    error: '失败',
+    cancelled: '已取消'
+};
+
+export const SYNC_RUN_ITEM_LABELS: Record<SyncRunItem['status'], string> = {
+    created: '新建',
+    updated: '更新',
+    failed: '失败'
+};
+
+/**
+ * 同步记录的简要统计
+ */
+export function formatRunSummary(run: SyncRunRecord): string {
+    const parts = [`新建 ${run.created}`, `更新 ${run.updated}`, `跳过 ${run.skipped}`, `失败 ${run.failed}`];
+    if (run.pushed > 0) {
+        parts.push(`回写 ${run.pushed}`);
+    }
+    if (run.conflicts > 0) {
+        parts.push(`冲突 ${run.conflicts}`);
+    }
+    if (run.newTags && run.newTags.length > 0) {
+        parts.push(`新标签 ${run.newTags.length}`);
+    }
+    parts.push(`下载资源 ${run.resourcesDownloaded}`, `AI 调用 ${run.aiCalls}`);
+    return parts.join('，');
+}
+
+export function getRunDuration(run: SyncRunRecord): number {
+    return Math.max(0, Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000));
+}
+
+/**
+ * 同步历史：每个服务器的每次同步一条记录（新的在前），可选在库中写入 Markdown 同步报告
+ */
+export class HistoryService {
+    constructor(
+        private vault: Vault,
+        private records: SyncRunRecord[],
+        private limit: number,
+        private writeReports: boolean,
+        private reportFolder: string
+    ) {}
+
+    getRuns(): SyncRunRecord[] {
+        return this.records;
+    }
+
+    getRun(id: string): SyncRunRecord | undefined {
+        return this.records.find(run => run.id === id);
+    }
+
+    startRun(profileId: string, profileName: string): SyncRunRecord {
+        const startedAt = new Date().toISOString();
+        return {
+            id: `${Date.now().toString(36)}-${profileId}`,
+            profileId,
+            profileName,
+            startedAt,
+            finishedAt: startedAt,
+            status: 'success',
+            created: 0,
+            updated: 0,
+            skipped: 0,
+            failed: 0,
+            pushed: 0,
+            conflicts: 0,
+            resourcesDownloaded: 0,
+            aiCalls: 0,
+            errors: [],
+            items: [],
+            newTags: []
+        };
+    }
+
+    /**
+     * 记录一条 memo 的保存结果，以及 AI 为它新建的标签
+     */
+    recordSave(run: SyncRunRecord, memoName: string, result: SaveResult, newTags: string[] = []) {
+        if (result.status === 'skipped') {
+            run.skipped++;
+            return;
+        }
+        run[result.status]++;
+        const error = result.failedResources && result.failedResources.length > 0 ? result.failedResources.join('；') : undefined;
+        run.items.push({ memoName, status: result.status, path: result.path, error, newTags: newTags.length > 0 ? newTags : undefined });
+        run.newTags = run.newTags || [];
+        for (const tag of newTags) {
+            if (!run.newTags.includes(tag)) {
+                run.newTags.push(tag);
+            }
+        }
+    }
+
+    /**
+     * 记录一条处理失败的 memo
+     */
+    recordFailure(run: SyncRunRecord, memoName: string, path: string, error: string) {
+        run.failed++;
+        run.items.push({ memoName, status: 'failed', path, error });
+    }
+
+    /**
+     * 结束同步记录并保存到历史中，开启同步报告时同时写入库中
+     */
+    async finishRun(run: SyncRunRecord, status: SyncRunRecord['status']): Promise<void> {
+        run.finishedAt = new Date().toISOString();
+        run.status = status;
+        this.records.unshift(run);
+        this.records.splice(Math.max(1, this.limit));
+
+        if (this.writeReports) {
+            try {
+                await this.writeReport(run);
+            } catch (error) {
+                console.error('写入同步报告失败:', error);
+            }
+        }
+    }
+
+    private async writeReport(run: SyncRunRecord): Promise<void> {
+        const folder = normalizePath(this.reportFolder || 'Memos 同步报告');
+        if (!(this.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+            await this.vault.createFolder(folder);
+        }
+        const fileName = sanitizeFileName(`${moment(run.startedAt).format('YYYY-MM-DD HH-mm-ss')} ${run.profileName}`);
+        let path = `${folder}/${fileName}.md`;
+        if (this.vault.getAbstractFileByPath(path)) {
+            path = `${folder}/${fileName} ${run.id}.md`;
+        }
+        await this.vault.create(path, this.formatReport(run));
+    }
+
+    formatReport(run: SyncRunRecord): string {
+        const lines = [
+            `# Memos 同步报告：${run.profileName}`,
+            '',
+            `- 结果：${SYNC_RUN_STATUS_LABELS[run.status]}`,
+            `- 开始时间：${new Date(run.startedAt).toLocaleString()}`,
+            `- 结束时间：${new Date(run.finishedAt).toLocaleString()}`,
+            `- 耗时：${getRunDuration(run)} 秒`,
+            '',
+            '## 统计',
+            '',
+            '| 项目 | 数量 |',
+            '| --- | --- |',
+            `| 新建 | ${run.created} |`,
+            `| 更新 | ${run.updated} |`,
+            `| 跳过 | ${run.skipped} |`,
+            `| 失败 | ${run.failed} |`,
+            `| 回写 | ${run.pushed} |`,
+            `| 冲突 | ${run.conflicts} |`,
+            `| 下载资源 | ${run.resourcesDownloaded} |`,
+            `| AI 调用 | ${run.aiCalls} |`
+        ];
+
+        if (run.errors.length > 0) {
+            lines.push('', '## 错误', '', ...run.errors.map(error => `- ${error}`));
+        }
+
+        if (run.newTags && run.newTags.length > 0) {
+            lines.push('', '## 新标签', '', 'AI 新建了以下库中原本没有的标签，可在标签别名表中把同义词对应到已有标签：', '');
+            lines.push(run.newTags.map(tag => `#${tag}`).join(' '));
+        }
+
+        if (run.items.length > 0) {
+            lines.push('', '## 处理的 memo', '');
+            for (const item of run.items) {
+                const link = item.path ? `[[${item.path}]]` : item.memoName;
+                const error = item.error ? `：${item.error}` : '';
+                const newTags = item.newTags ? `（新标签：${item.newTags.map(tag => `#${tag}`).join(' ')}）` : '';
+                lines.push(`- ${SYNC_RUN_ITEM_LABELS[item.status]} ${link}${error}${newTags}`);
+            }
+        }
+
+        return lines.join('\n') + '\n';
+    }
+}
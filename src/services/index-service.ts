@@ -0,0 +1,117 @@
+import { TFile, TFolder } from 'obsidian';
+import type { TAbstractFile } from 'obsidian';
+import type { MemoIndexEntry, PluginState } from '../models/state';
+import type { BaseContentService } from './base-content-service';
+
+/**
+ * memo name 到笔记路径的持久化索引，避免每次查找都遍历同步目录
+ */
+export class MemoIndexService {
+    constructor(private state: PluginState, private baseContents: BaseContentService) {}
+
+    get isBuilt(): boolean {
+        return Boolean(this.state.indexBuiltAt);
+    }
+
+    get(memoName: string): MemoIndexEntry | undefined {
+        return this.state.memoIndex[memoName];
+    }
+
+    // 未提供 uid 时沿用索引中已有的 uid
+    set(memoName: string, entry: MemoIndexEntry) {
+        const uid = entry.uid || this.state.memoIndex[memoName]?.uid;
+        this.state.memoIndex[memoName] = uid ? { ...entry, uid } : entry;
+    }
+
+    delete(memoName: string) {
+        delete this.state.memoIndex[memoName];
+    }
+
+    entries(): Array<[string, MemoIndexEntry]> {
+        return Object.entries(this.state.memoIndex);
+    }
+
+    findByPath(path: string): string | undefined {
+        return Object.keys(this.state.memoIndex)
+            .find(memoName => this.state.memoIndex[memoName].path === path);
+    }
+
+    /**
+     * 用完整扫描的结果替换索引
+     */
+    replaceAll(entries: Map<string, MemoIndexEntry>) {
+        this.state.memoIndex = Object.fromEntries(entries);
+        this.state.indexBuiltAt = new Date().toISOString();
+    }
+
+    /**
+     * 文件或目录重命名后更新索引及其他按路径记录的状态，返回是否有变化
+     */
+    handleRename(file: TAbstractFile, oldPath: string): boolean {
+        const renamePath = (path: string): string | null => {
+            if (file instanceof TFile && path === oldPath) {
+                return file.path;
+            }
+            if (file instanceof TFolder && path.startsWith(`${oldPath}/`)) {
+                return file.path + path.slice(oldPath.length);
+            }
+            return null;
+        };
+
+        let changed = false;
+        for (const entry of Object.values(this.state.memoIndex)) {
+            const newPath = renamePath(entry.path);
+            if (newPath) {
+                entry.path = newPath;
+                changed = true;
+            }
+        }
+        for (const [memoName, path] of Object.entries(this.state.pendingChanges)) {
+            const newPath = renamePath(path);
+            if (newPath) {
+                this.state.pendingChanges[memoName] = newPath;
+                changed = true;
+            }
+        }
+        for (const conflict of Object.values(this.state.conflicts)) {
+            const newPath = renamePath(conflict.path);
+            if (newPath) {
+                conflict.path = newPath;
+                changed = true;
+            }
+        }
+        for (const resource of Object.values(this.state.resources)) {
+            const newPath = renamePath(resource.path);
+            if (newPath) {
+                resource.path = newPath;
+                changed = true;
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * 文件或目录删除后移除对应索引项及该 memo 的回写基准与冲突，返回是否有变化
+     */
+    async handleDelete(file: TAbstractFile): Promise<boolean> {
+        const isDeleted = (path: string) => path === file.path || path.startsWith(`${file.path}/`);
+        let changed = false;
+        for (const [memoName, entry] of Object.entries(this.state.memoIndex)) {
+            if (isDeleted(entry.path)) {
+                delete this.state.memoIndex[memoName];
+                delete this.state.pendingChanges[memoName];
+                await this.baseContents.delete(memoName);
+                changed = true;
+            }
+        }
+        // 笔记已删除的冲突无法再解决，留在队列中会阻止该 memo 重新同步
+        for (const [memoName, conflict] of Object.entries(this.state.conflicts)) {
+            if (isDeleted(conflict.path)) {
+                delete this.state.conflicts[memoName];
+                await this.baseContents.delete(memoName);
+                changed = true;
+            }
+        }
+        return changed;
+    }
+}
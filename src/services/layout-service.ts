@@ -0,0 +1,156 @@
+import { TFile } from 'obsidian';
+import type { App } from 'obsidian';
+import type { NoteLayout, ResourceLocation } from '../models/settings';
+import type { PluginState } from '../models/state';
+import type { FileService } from './file-service';
+import type { MemoIndexService } from './index-service';
+import { ARCHIVE_FOLDER } from './reconcile-service';
+import { ensureDirectoryExists, getParentPath, getRelativePath } from '../utils/path';
+
+export interface MigrationResult {
+    moved: number;
+    skipped: number;
+    failed: number;
+}
+
+/**
+ * 目录与文件名规则修改后，把已同步的笔记移动到新规则对应的位置
+ */
+export class LayoutService {
+    constructor(
+        private app: App,
+        private syncDirectory: string,
+        private fileService: FileService,
+        private index: MemoIndexService,
+        private state: PluginState,
+        private layout: NoteLayout,
+        private resourceLocation: ResourceLocation = 'note'
+    ) {}
+
+    /**
+     * 已同步的笔记是否仍按旧规则存放
+     */
+    get needsMigration(): boolean {
+        const applied = this.state.layout;
+        return applied !== null
+            && (applied.folderPattern !== this.layout.folderPattern
+                || applied.fileNamePattern !== this.layout.fileNamePattern);
+    }
+
+    /**
+     * 按索引中的笔记及其 memo 属性计算新路径并移动，笔记旁的资源随笔记一起移动
+     */
+    async migrate(): Promise<MigrationResult> {
+        const result: MigrationResult = { moved: 0, skipped: 0, failed: 0 };
+        const archiveDirectory = `${this.syncDirectory}/${ARCHIVE_FOLDER}`;
+
+        for (const [memoName, entry] of this.index.entries()) {
+            // 只移动仍在同步目录中的笔记，用户移到别处的保持不动
+            if (!entry.path.startsWith(`${this.syncDirectory}/`)) {
+                continue;
+            }
+            const file = this.app.vault.getAbstractFileByPath(entry.path);
+            if (!(file instanceof TFile)) {
+                continue;
+            }
+
+            const memo = this.fileService.readMemoFromNote(memoName, await this.app.vault.cachedRead(file));
+            if (!memo) {
+                console.log(`笔记缺少创建时间属性，跳过移动 ${file.path}`);
+                result.skipped++;
+                continue;
+            }
+            const directory = entry.path.startsWith(`${archiveDirectory}/`) ? archiveDirectory : this.syncDirectory;
+            const targetPath = this.fileService.getNotePath(memo, directory);
+            if (targetPath === file.path) {
+                continue;
+            }
+            if (await this.app.vault.adapter.exists(targetPath)) {
+                console.log(`目标路径已存在，跳过移动 ${file.path} -> ${targetPath}`);
+                result.skipped++;
+                continue;
+            }
+
+            const oldPath = file.path;
+            try {
+                // 移动前记下资源，移动后链接缓存会重新解析
+                const resourceMoves = this.planResourceMoves(oldPath, targetPath);
+                await ensureDirectoryExists(this.app.vault.adapter, getParentPath(targetPath));
+                // 通过 fileManager 移动，Obsidian 会同时更新指向该笔记的链接；索引由 rename 事件更新
+                await this.app.fileManager.renameFile(file, targetPath);
+                const movedResources = await this.moveResources(resourceMoves);
+                await this.relinkResources(oldPath, targetPath, movedResources);
+                result.moved++;
+            } catch (error) {
+                console.error(`移动笔记 ${oldPath} 失败:`, error);
+                result.failed++;
+            }
+        }
+
+        if (result.failed === 0) {
+            this.state.layout = { ...this.layout };
+        }
+        return result;
+    }
+
+    /**
+     * 笔记链接的已同步资源及其新位置。资源存放在笔记旁且只被这篇笔记引用时随笔记移动，其余保持原位
+     */
+    private planResourceMoves(notePath: string, targetPath: string): Array<[string, string]> {
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+        const knownPaths = new Set(Object.values(this.state.resources).map(resource => resource.path));
+        const oldResourceDir = `${getParentPath(notePath)}/resources/`;
+        const newResourceDir = `${getParentPath(targetPath)}/resources/`;
+
+        return Object.keys(resolvedLinks[notePath] || {})
+            .filter(path => knownPaths.has(path))
+            .map(path => {
+                const isNextToNote = this.resourceLocation === 'note' && path.startsWith(oldResourceDir);
+                const isShared = Object.keys(resolvedLinks)
+                    .some(source => source !== notePath && path in resolvedLinks[source]);
+                return [path, isNextToNote && !isShared ? newResourceDir + path.slice(oldResourceDir.length) : path];
+            });
+    }
+
+    // 返回资源最终所在的路径，目标已存在时资源留在原处
+    private async moveResources(moves: Array<[string, string]>): Promise<Array<[string, string]>> {
+        const result: Array<[string, string]> = [];
+        for (const [from, to] of moves) {
+            const file = this.app.vault.getAbstractFileByPath(from);
+            if (from === to || !(file instanceof TFile) || await this.app.vault.adapter.exists(to)) {
+                result.push([from, from]);
+                continue;
+            }
+            await ensureDirectoryExists(this.app.vault.adapter, getParentPath(to));
+            await this.app.fileManager.renameFile(file, to);
+            result.push([from, to]);
+        }
+        return result;
+    }
+
+    /**
+     * 改写笔记中指向资源的相对路径链接。Obsidian 已自动更新的链接不会再匹配旧路径
+     */
+    private async relinkResources(oldNotePath: string, notePath: string, resources: Array<[string, string]>): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(notePath);
+        if (!(file instanceof TFile) || resources.length === 0) {
+            return;
+        }
+        const content = await this.app.vault.read(file);
+        let updated = content;
+        for (const [from, to] of resources) {
+            const oldLink = getRelativePath(oldNotePath, from);
+            const newLink = getRelativePath(notePath, to);
+            if (oldLink !== newLink) {
+                updated = updated.split(`](${oldLink})`).join(`](${newLink})`);
+            }
+            if (from !== to) {
+                // frontmatter 中的资源列表使用完整路径
+                updated = updated.split(`[[${from}]]`).join(`[[${to}]]`);
+            }
+        }
+        if (updated !== content) {
+            await this.app.vault.modify(file, updated);
+        }
+    }
+}
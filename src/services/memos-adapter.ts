@@ -0,0 +1,223 @@
+import type { MemoItem, MemoResource } from '../models/settings';
+import type { RowStatus } from './memos-service';
+import { isRecord } from '../utils/structured-output';
+
+// 服务端返回的原始 JSON 对象，字段使用前逐个检查类型
+type RawData = Record<string, unknown>;
+
+function getString(data: RawData, key: string): string {
+    const value = data[key];
+    return typeof value === 'string' ? value : '';
+}
+
+export interface ListMemosQuery {
+    rowStatus: RowStatus;
+    pageSize: number;
+    pageToken?: string;
+    filter?: string;
+}
+
+// 可交给服务端处理的筛选条件
+export interface ServerFilter {
+    // 秒级时间戳
+    updatedAfter?: number;
+    visibilities?: string[];
+    tag?: string;
+    pinned?: boolean;
+}
+
+export interface ListMemosResult {
+    memos: MemoItem[];
+    nextPageToken?: string;
+}
+
+/**
+ * 不同版本 Memos API 的差异：列表参数、返回结构和资源下载地址。结果统一转换为 MemoItem
+ */
+export interface MemosApiAdapter {
+    readonly version: string;
+    buildListParams(query: ListMemosQuery): URLSearchParams;
+    buildFilter(filter: ServerFilter): string | undefined;
+    parseListResponse(data: unknown): ListMemosResult;
+    parseMemo(data: unknown): MemoItem;
+    getResourceUrl(origin: string, resource: MemoResource): string;
+}
+
+// 服务端的版本信息接口，新版本在前
+export const PROFILE_ENDPOINTS = ['/api/v1/instance/profile', '/api/v1/workspace/profile'];
+
+/**
+ * 比较形如 0.24.1 的版本号
+ */
+export function compareVersions(a: string, b: string): number {
+    const parse = (version: string) => version.replace(/^v/, '').split(/[.-]/).map(part => Number.parseInt(part, 10) || 0);
+    const left = parse(a);
+    const right = parse(b);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] || 0) - (right[i] || 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    return 0;
+}
+
+/**
+ * 从版本信息接口的响应中取出版本号
+ */
+export function parseProfileVersion(data: unknown): string | null {
+    if (!isRecord(data)) {
+        return null;
+    }
+    const version = data.version ?? (isRecord(data.profile) ? data.profile.version : undefined);
+    return typeof version === 'string' && version ? version : null;
+}
+
+/**
+ * Memos 0.22 - 0.24：memo 带 rowStatus 与 resources
+ */
+export class MemosV022Adapter implements MemosApiAdapter {
+    readonly version: string = '0.22';
+
+    buildListParams(query: ListMemosQuery): URLSearchParams {
+        const params = new URLSearchParams({
+            'rowStatus': query.rowStatus,
+            'limit': query.pageSize.toString()
+        });
+        this.setPaging(params, query);
+        return params;
+    }
+
+    protected setPaging(params: URLSearchParams, query: ListMemosQuery) {
+        if (query.pageToken) {
+            params.set('pageToken', query.pageToken);
+        }
+        if (query.filter) {
+            params.set('filter', query.filter);
+        }
+    }
+
+    /**
+     * 0.22 的过滤表达式只声明了 visibilities、tag_search、display_time_after 等变量。
+     * display_time_after 默认按创建时间比较，会漏掉旧 memo 的修改，所以同步游标和置顶条件只在客户端过滤
+     */
+    buildFilter(filter: ServerFilter): string | undefined {
+        const conditions: string[] = [];
+        if (filter.visibilities && filter.visibilities.length > 0) {
+            conditions.push(`visibilities == ${JSON.stringify(filter.visibilities)}`);
+        }
+        if (filter.tag) {
+            conditions.push(`tag_search == ${JSON.stringify([filter.tag])}`);
+        }
+        return conditions.length > 0 ? conditions.join(' && ') : undefined;
+    }
+
+    parseListResponse(data: unknown): ListMemosResult {
+        if (!isRecord(data) || !Array.isArray(data.memos)) {
+            throw new Error('响应格式无效: 返回数据不包含 memos 数组');
+        }
+        return {
+            memos: data.memos.map((memo: unknown) => this.parseMemo(memo)),
+            nextPageToken: getString(data, 'nextPageToken') || undefined
+        };
+    }
+
+    parseMemo(data: unknown): MemoItem {
+        if (!isRecord(data) || typeof data.name !== 'string') {
+            throw new Error('响应格式无效: 返回数据不是 memo');
+        }
+        return this.normalizeMemo(data, data.resources, data.rowStatus);
+    }
+
+    protected normalizeMemo(memo: RawData, resources: unknown, rowStatus: unknown): MemoItem {
+        const name = getString(memo, 'name');
+        const createTime = getString(memo, 'createTime');
+        return {
+            name,
+            uid: getString(memo, 'uid') || name.split('/').pop() || '',
+            content: getString(memo, 'content'),
+            visibility: getString(memo, 'visibility') || 'PRIVATE',
+            createTime,
+            updateTime: getString(memo, 'updateTime') || createTime,
+            displayTime: getString(memo, 'displayTime') || createTime,
+            creator: getString(memo, 'creator'),
+            rowStatus: typeof rowStatus === 'string' ? rowStatus : 'NORMAL',
+            pinned: memo.pinned === true,
+            resources: Array.isArray(resources) ? resources.filter(isRecord).map(resource => this.normalizeResource(resource)) : [],
+            tags: Array.isArray(memo.tags) ? memo.tags.filter((tag): tag is string => typeof tag === 'string') : []
+        };
+    }
+
+    protected normalizeResource(resource: RawData): MemoResource {
+        const name = getString(resource, 'name');
+        const size = resource.size;
+        return {
+            name,
+            uid: getString(resource, 'uid') || name.split('/').pop() || '',
+            filename: getString(resource, 'filename'),
+            type: getString(resource, 'type'),
+            size: typeof size === 'string' || typeof size === 'number' ? String(size) : '',
+            createTime: getString(resource, 'createTime')
+        };
+    }
+
+    getResourceUrl(origin: string, resource: MemoResource): string {
+        const resourceId = resource.name.split('/').pop() || resource.name;
+        return `${origin}/file/resources/${resourceId}/${encodeURIComponent(resource.filename)}`;
+    }
+}
+
+/**
+ * Memos 0.25 及以上：rowStatus 改为 state，resources 改为 attachments，分页参数为 pageSize
+ */
+export class MemosV025Adapter extends MemosV022Adapter {
+    readonly version: string = '0.25';
+
+    buildListParams(query: ListMemosQuery): URLSearchParams {
+        const params = new URLSearchParams({
+            'state': query.rowStatus,
+            'pageSize': query.pageSize.toString()
+        });
+        this.setPaging(params, query);
+        return params;
+    }
+
+    // 0.25 的过滤表达式使用 updated_ts、tag、visibility、pinned 等字段，时间为秒级时间戳
+    buildFilter(filter: ServerFilter): string | undefined {
+        const conditions: string[] = [];
+        if (filter.updatedAfter) {
+            conditions.push(`updated_ts > ${filter.updatedAfter}`);
+        }
+        if (filter.visibilities && filter.visibilities.length > 0) {
+            conditions.push(`visibility in ${JSON.stringify(filter.visibilities)}`);
+        }
+        if (filter.tag) {
+            conditions.push(`tag in ${JSON.stringify([filter.tag])}`);
+        }
+        if (filter.pinned !== undefined) {
+            conditions.push(`pinned == ${filter.pinned}`);
+        }
+        return conditions.length > 0 ? conditions.join(' && ') : undefined;
+    }
+
+    parseMemo(data: unknown): MemoItem {
+        if (!isRecord(data) || typeof data.name !== 'string') {
+            throw new Error('响应格式无效: 返回数据不是 memo');
+        }
+        return this.normalizeMemo(data, data.attachments ?? data.resources, data.state ?? data.rowStatus);
+    }
+
+    getResourceUrl(origin: string, resource: MemoResource): string {
+        return `${origin}/file/${resource.name}/${encodeURIComponent(resource.filename)}`;
+    }
+}
+
+/**
+ * 按服务端版本号选择适配器，无法识别时按 0.22 处理
+ */
+export function createMemosAdapter(version: string | null): MemosApiAdapter {
+    if (version && compareVersions(version, '0.25.0') >= 0) {
+        return new MemosV025Adapter();
+    }
+    return new MemosV022Adapter();
+}
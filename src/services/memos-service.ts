@@ -1,93 +1,172 @@
-import type { MemoItem } from '../models/settings';
+import type { MemoItem, MemoResource, MemosApiVersion } from '../models/settings';
+import type { Limiter } from '../utils/concurrency';
+import { createLimiter } from '../utils/concurrency';
+import type { MemosApiAdapter } from './memos-adapter';
+import type { FilterService } from './filter-service';
+import { PROFILE_ENDPOINTS, createMemosAdapter, parseProfileVersion } from './memos-adapter';
 
-export interface MemosResponse {
+// memo 状态：正常或已归档
+export type RowStatus = 'NORMAL' | 'ARCHIVED';
+
+// 服务端返回错误状态码
+export class MemosRequestError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'MemosRequestError';
+    }
+}
+
+export interface MemoFetchResult {
     memos: MemoItem[];
-    nextPageToken?: string;
+    // 因达到条数上限而没有取完符合条件的 memo
+    truncated: boolean;
 }
 
 export class MemosService {
+    private adapter: Promise<MemosApiAdapter> | null = null;
+
     constructor(
         private apiUrl: string,
         private accessToken: string,
-        private syncLimit: number
+        private syncLimit: number,
+        private networkLimiter: Limiter = createLimiter(1),
+        private apiVersion: MemosApiVersion = 'auto'
     ) {}
 
-    async fetchAllMemos(): Promise<MemoItem[]> {
-        try {
-            console.log('开始获取 memos，API URL:', this.apiUrl);
-            console.log('Access Token:', this.accessToken ? '已设置' : '未设置');
-            console.log('同步限制:', this.syncLimit, '条');
+    // 服务端地址（去掉 /api/v1 等 API 路径）
+    private get origin(): string {
+        return this.apiUrl.trim().replace(/\/+$/, '').replace(/\/api\/v\d+$/, '');
+    }
 
-            const allMemos: MemoItem[] = [];
-            let pageToken: string | undefined;
-            const pageSize = Math.min(100, this.syncLimit);
+    private get apiBase(): string {
+        return `${this.origin}/api/v1`;
+    }
 
-            // 验证 API URL 格式
-            if (!this.apiUrl.includes('/api/v1')) {
-                throw new Error('API URL 格式不正确，请确保包含 /api/v1');
+    /**
+     * 当前服务端对应的 API 适配器。设置为自动时通过版本信息接口检测，只检测一次
+     */
+    getAdapter(): Promise<MemosApiAdapter> {
+        if (!this.adapter) {
+            this.adapter = this.apiVersion === 'auto'
+                ? this.detectVersion().then(version => createMemosAdapter(version))
+                : Promise.resolve(createMemosAdapter(this.apiVersion));
+        }
+        return this.adapter;
+    }
+
+    private async detectVersion(): Promise<string | null> {
+        for (const endpoint of PROFILE_ENDPOINTS) {
+            try {
+                const response = await this.networkLimiter(() => fetch(`${this.origin}${endpoint}`, {
+                    headers: {
+                        'Authorization': `Bearer ${this.accessToken}`,
+                        'Accept': 'application/json'
+                    }
+                }));
+                if (!response.ok) {
+                    continue;
+                }
+                const version = parseProfileVersion(await response.json());
+                if (version) {
+                    console.log('检测到 Memos 版本:', version);
+                    return version;
+                }
+            } catch (error) {
+                console.log(`获取版本信息失败: ${endpoint}`, error);
             }
+        }
+        console.log('无法检测 Memos 版本，按 0.22 API 处理');
+        return null;
+    }
+
+    /**
+     * 获取 memos。传入 updatedAfter 时只返回该时间之后有更新的 memo（增量同步）。
+     * 传入 filter 时只返回符合筛选条件的 memo，能交给服务端的条件放入查询参数
+     */
+    async fetchAllMemos(updatedAfter?: string, rowStatus: RowStatus = 'NORMAL', limit: number = this.syncLimit, filter?: FilterService): Promise<MemoItem[]> {
+        return (await this.fetchMemos(updatedAfter, rowStatus, limit, filter)).memos;
+    }
+
+    /**
+     * 同 fetchAllMemos，同时返回结果是否因条数上限被截断
+     */
+    async fetchMemos(updatedAfter?: string, rowStatus: RowStatus = 'NORMAL', limit: number = this.syncLimit, filter?: FilterService): Promise<MemoFetchResult> {
+        try {
+            const allMemos: MemoItem[] = [];
+            let truncated = false;
+            let pageToken: string | undefined;
+            const pageSize = Math.min(100, limit);
+            const cursorTime = updatedAfter ? new Date(updatedAfter).getTime() : 0;
+            const adapter = await this.getAdapter();
+            const serverFilter = adapter.buildFilter({
+                ...filter?.serverFilter,
+                updatedAfter: cursorTime > 0 ? Math.floor(cursorTime / 1000) : undefined
+            });
+            // 服务端不支持这些过滤条件时，退回到客户端过滤
+            let useServerFilter = serverFilter !== undefined;
 
             do {
-                const baseUrl = this.apiUrl;
-                const url = `${baseUrl}/memos`;
+                const url = `${this.apiBase}/memos`;
 
                 // 构建请求参数
-                const params = new URLSearchParams({
-                    'rowStatus': 'NORMAL',
-                    'limit': pageSize.toString()
+                const params = adapter.buildListParams({
+                    rowStatus,
+                    pageSize,
+                    pageToken,
+                    filter: useServerFilter ? serverFilter : undefined
                 });
 
-                if (pageToken) {
-                    params.set('pageToken', pageToken);
-                }
-
                 const finalUrl = `${url}?${params.toString()}`;
-                console.log('请求 URL:', finalUrl);
-
-                const response = await fetch(finalUrl, {
+                const response = await this.networkLimiter(() => fetch(finalUrl, {
                     method: 'GET',
                     headers: {
                         'Authorization': `Bearer ${this.accessToken}`,
                         'Accept': 'application/json'
                     }
-                });
+                }));
+
+                if (response.status === 400 && useServerFilter && !pageToken) {
+                    // 服务端拒绝过滤表达式时只能逐页拉取全部 memo，明确记录以便排查
+                    console.warn(`Memos ${adapter.version} 拒绝过滤条件 ${serverFilter}，改为拉取全部 memo 后在客户端过滤:`, await response.text());
+                    useServerFilter = false;
+                    continue;
+                }
 
                 if (!response.ok) {
                     const responseText = await response.text();
                     throw new Error(`HTTP ${response.status}: ${response.statusText}\n响应内容: ${responseText}`);
                 }
 
-                const responseData = await response.json();
-                console.log('API 响应数据:', responseData);
+                const page = adapter.parseListResponse(await response.json());
+                const memos = page.memos.filter(memo =>
+                    (cursorTime === 0 || new Date(memo.updateTime).getTime() > cursorTime)
+                    && (!filter || filter.matches(memo)));
+                pageToken = page.nextPageToken;
 
-                if (!responseData || !Array.isArray(responseData.memos)) {
-                    throw new Error('响应格式无效: 返回数据不包含 memos 数组');
-                }
-
-                const memos = responseData.memos;
-                pageToken = responseData.nextPageToken;
-
-                if (memos.length === 0) {
+                if (page.memos.length === 0) {
                     break; // 没有更多数据了
                 }
 
                 // 只添加需要的数量
-                const remainingCount = this.syncLimit - allMemos.length;
+                const remainingCount = limit - allMemos.length;
                 const neededCount = Math.min(memos.length, remainingCount);
                 allMemos.push(...memos.slice(0, neededCount));
-                console.log(`本次获取 ${neededCount} 条 memos，总计: ${allMemos.length}/${this.syncLimit}`);
 
                 // 如果已经达到同步限制或没有下一页，就退出
-                if (allMemos.length >= this.syncLimit || !pageToken) {
+                if (allMemos.length >= limit || !pageToken) {
+                    truncated = neededCount < memos.length || (allMemos.length >= limit && !!pageToken);
                     break;
                 }
 
             } while (true);
 
-            console.log(`最终返回 ${allMemos.length} 条 memos`);
-            return allMemos.sort((a, b) => 
-                new Date(b.createTime).getTime() - new Date(a.createTime).getTime()
-            );
+            console.log(`最终返回 ${allMemos.length} 条 memos${truncated ? '，已达到同步条数上限' : ''}`);
+            return {
+                memos: allMemos.sort((a, b) =>
+                    new Date(b.createTime).getTime() - new Date(a.createTime).getTime()
+                ),
+                truncated
+            };
         } catch (error) {
             console.error('获取 memos 失败:', error);
             if (error instanceof TypeError && error.message === 'Failed to fetch') {
@@ -97,12 +176,79 @@ export class MemosService {
         }
     }
 
-    async downloadResource(resource: { name: string; filename: string; type?: string }): Promise<ArrayBuffer | null> {
+    /**
+     * 获取服务端指定状态的全部 memo name（不受同步条数限制）
+     */
+    async fetchMemoNames(rowStatus: RowStatus): Promise<Set<string>> {
+        const memos = await this.fetchAllMemos(undefined, rowStatus, Number.POSITIVE_INFINITY);
+        return new Set(memos.map(memo => memo.name));
+    }
+
+    private async requestMemo(path: string, init: RequestInit = {}): Promise<MemoItem> {
+        const adapter = await this.getAdapter();
+        const response = await this.networkLimiter(() => fetch(`${this.apiBase}/${path}`, {
+            ...init,
+            headers: {
+                'Authorization': `Bearer ${this.accessToken}`,
+                'Accept': 'application/json',
+                'Content-Type': 'application/json'
+            }
+        }));
+
+        if (!response.ok) {
+            const responseText = await response.text();
+            throw new MemosRequestError(`HTTP ${response.status}: ${response.statusText}\n响应内容: ${responseText}`, response.status);
+        }
+
+        return adapter.parseMemo(await response.json());
+    }
+
+    async getMemo(name: string): Promise<MemoItem> {
+        return this.requestMemo(name);
+    }
+
+    /**
+     * 获取 memo，服务端已删除（404）时返回 null
+     */
+    async findMemo(name: string): Promise<MemoItem | null> {
+        try {
+            return await this.requestMemo(name);
+        } catch (error) {
+            if (error instanceof MemosRequestError && error.status === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async updateMemoContent(name: string, content: string): Promise<MemoItem> {
         try {
-            const resourceId = resource.name.split('/').pop() || resource.name;
-            const resourceUrl = `${this.apiUrl.replace('/api/v1', '')}/file/resources/${resourceId}/${encodeURIComponent(resource.filename)}`;
+            return await this.requestMemo(`${name}?updateMask=content`, {
+                method: 'PATCH',
+                body: JSON.stringify({ name, content })
+            });
+        } catch (error) {
+            console.error('回写 memo 失败:', error);
+            throw error;
+        }
+    }
 
-            console.log(`Downloading resource: ${resourceUrl}`);
+    async createMemo(content: string, visibility = 'PRIVATE'): Promise<MemoItem> {
+        try {
+            return await this.requestMemo('memos', {
+                method: 'POST',
+                body: JSON.stringify({ content, visibility })
+            });
+        } catch (error) {
+            console.error('创建 memo 失败:', error);
+            throw error;
+        }
+    }
+
+    async downloadResource(resource: MemoResource): Promise<ArrayBuffer | null> {
+        try {
+            const adapter = await this.getAdapter();
+            const resourceUrl = adapter.getResourceUrl(this.origin, resource);
 
             const response = await fetch(resourceUrl, {
                 headers: {
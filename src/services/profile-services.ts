@@ -0,0 +1,180 @@
+import type { App } from 'obsidian';
+import type { MemosPluginSettings, ServerProfile } from '../models/settings';
+import { DEFAULT_PROFILE_ID } from '../models/settings';
+import type { PluginState } from '../models/state';
+import type { AIService } from './ai-service';
+import type { Limiter } from '../utils/concurrency';
+import { createLimiter } from '../utils/concurrency';
+import { parseTagAliases } from '../utils/tags';
+import { sanitizeFileName } from '../utils/path';
+import { MemosService } from './memos-service';
+import { FileService } from './file-service';
+import { ContentService } from './content-service';
+import { ChangeService } from './change-service';
+import { MemoIndexService } from './index-service';
+import { TemplateService } from './template-service';
+import { ReconcileService } from './reconcile-service';
+import { ConflictService } from './conflict-service';
+import { LayoutService } from './layout-service';
+import { ResourceService } from './resource-service';
+import { BaseContentService } from './base-content-service';
+import { FilterService } from './filter-service';
+
+// 同步过程中的资源下载数与 AI 调用数，每次同步前清零
+export interface SyncStats {
+    resourcesDownloaded: number;
+    aiCalls: number;
+}
+
+/**
+ * 一个 Memos 服务器的全部同步服务。每个服务器有独立的状态，memo 索引、同步游标和冲突互不影响
+ */
+export class ProfileServices {
+    readonly memosService: MemosService;
+    readonly filterService: FilterService;
+    readonly contentService: ContentService;
+    readonly indexService: MemoIndexService;
+    readonly baseContentService: BaseContentService;
+    readonly resourceService: ResourceService;
+    readonly fileService: FileService;
+    readonly changeService: ChangeService;
+    readonly reconcileService: ReconcileService;
+    readonly layoutService: LayoutService;
+    readonly conflictService: ConflictService;
+    readonly stats: SyncStats = { resourcesDownloaded: 0, aiCalls: 0 };
+
+    constructor(
+        app: App,
+        settings: MemosPluginSettings,
+        readonly profile: ServerProfile,
+        readonly state: PluginState,
+        // 插件目录，存放各服务器的回写基准
+        pluginDirectory: string,
+        aiService: AIService,
+        aiEnabled: boolean,
+        aiLimiter: Limiter,
+        saveState: () => Promise<void>,
+        onConflictsChanged: () => Promise<void>
+    ) {
+        this.memosService = new MemosService(
+            profile.memosApiUrl,
+            profile.memosAccessToken,
+            settings.syncLimit,
+            createLimiter(settings.networkConcurrency),
+            profile.memosApiVersion
+        );
+
+        this.filterService = new FilterService(profile.filters);
+
+        this.contentService = new ContentService(
+            aiService,
+            aiEnabled,
+            settings.ai.intelligentSummary,
+            settings.ai.autoTags,
+            settings.ai.summaryLanguage,
+            app.vault,
+            app.metadataCache,
+            profile.syncDirectory,
+            this.countCalls(aiLimiter, 'aiCalls'),
+            parseTagAliases(settings.ai.tagAliases)
+        );
+
+        this.baseContentService = new BaseContentService(app.vault.adapter, `${pluginDirectory}/base/${profile.id}`);
+
+        this.indexService = new MemoIndexService(state, this.baseContentService);
+
+        this.resourceService = new ResourceService(
+            app,
+            profile.syncDirectory,
+            this.memosService,
+            state,
+            settings.resourceLocation,
+            settings.resourceFolder,
+            settings.resourceLinkStyle,
+            this.countCalls(createLimiter(settings.downloadConcurrency), 'resourcesDownloaded'),
+            profile.id === DEFAULT_PROFILE_ID ? '' : sanitizeFileName(profile.id)
+        );
+
+        this.fileService = new FileService(
+            app.vault,
+            profile.syncDirectory,
+            this.resourceService,
+            this.contentService,
+            this.indexService,
+            settings.updateExistingMemos,
+            settings.metadataFormat,
+            new TemplateService(app.vault, settings.templatePath),
+            settings,
+            settings.outputMode,
+            settings.dailyNoteHeading,
+            profile.id === DEFAULT_PROFILE_ID ? '' : `${profile.id}:`
+        );
+
+        this.changeService = new ChangeService(
+            app.vault,
+            profile.syncDirectory,
+            this.memosService,
+            this.fileService,
+            this.indexService,
+            this.baseContentService,
+            state,
+            saveState
+        );
+
+        this.reconcileService = new ReconcileService(
+            app,
+            profile.syncDirectory,
+            this.memosService,
+            this.fileService,
+            settings.missingMemoPolicy,
+            settings.syncArchivedMemos
+        );
+
+        this.layoutService = new LayoutService(
+            app,
+            profile.syncDirectory,
+            this.fileService,
+            this.indexService,
+            state,
+            settings,
+            settings.resourceLocation
+        );
+
+        this.conflictService = new ConflictService(
+            app.vault,
+            this.memosService,
+            this.fileService,
+            this.contentService,
+            this.changeService,
+            state,
+            onConflictsChanged
+        );
+    }
+
+    // 统计经过 limiter 且有结果的调用
+    private countCalls(limiter: Limiter, key: keyof SyncStats): Limiter {
+        return <T>(task: () => Promise<T>) => limiter(async () => {
+            const result = await task();
+            if (result) {
+                this.stats[key]++;
+            }
+            return result;
+        });
+    }
+
+    resetStats() {
+        this.stats.resourcesDownloaded = 0;
+        this.stats.aiCalls = 0;
+    }
+
+    get name(): string {
+        return this.profile.name || this.profile.memosApiUrl;
+    }
+}
+
+/**
+ * 两个同步目录相同或互相包含时返回 true，这样的服务器会把对方的笔记当作自己的
+ */
+export function isDirectoryOverlapping(a: string, b: string): boolean {
+    return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
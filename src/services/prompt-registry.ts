@@ -0,0 +1,62 @@
+import type { AITask, PromptSettings } from '../models/settings';
+import { DEFAULT_PROMPTS } from '../models/settings';
+import { renderTemplate } from './template-service';
+
+// 提示词模板中可用的变量
+export interface PromptVariables {
+    content: string;
+    language?: string;
+    tags_existing?: string;
+    date_range?: string;
+}
+
+export interface RenderedPrompt {
+    prompt: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+export const PROMPT_TASK_LABELS: Record<AITask, string> = {
+    summary: '内容摘要',
+    tags: '智能标签',
+    weeklyDigest: '每周总结'
+};
+
+// 各任务可用的变量，用于设置页说明
+export const PROMPT_TASK_VARIABLES: Record<AITask, Array<keyof PromptVariables>> = {
+    summary: ['content', 'language'],
+    tags: ['content', 'language', 'tags_existing'],
+    weeklyDigest: ['content', 'language', 'date_range']
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+    zh: '中文',
+    en: 'English',
+    ja: '日本語',
+    ko: '한국어'
+};
+
+/**
+ * 各 AI 任务的提示词模板与生成参数，模板语法与笔记模板相同，支持 {{#if}} 等块
+ */
+export class PromptRegistry {
+    constructor(private prompts: Record<AITask, PromptSettings>) {}
+
+    get(task: AITask): PromptSettings {
+        const prompt = this.prompts[task];
+        return prompt && prompt.template.trim() ? prompt : DEFAULT_PROMPTS[task];
+    }
+
+    render(task: AITask, variables: PromptVariables): RenderedPrompt {
+        const { template, temperature, maxTokens } = this.get(task);
+        const language = variables.language || 'zh';
+        return {
+            prompt: renderTemplate(template, {
+                ...variables,
+                language: LANGUAGE_NAMES[language] || language
+            }),
+            temperature,
+            maxTokens
+        };
+    }
+}
@@ -0,0 +1,135 @@
+import { TFile } from 'obsidian';
+import type { App } from 'obsidian';
+import type { MissingMemoPolicy } from '../models/settings';
+import type { MemosService } from './memos-service';
+import type { FileService } from './file-service';
+import { ensureDirectoryExists, getParentPath } from '../utils/path';
+
+// 归档笔记所在的子目录
+export const ARCHIVE_FOLDER = '_archive';
+
+// 移动或删除笔记的策略，在服务端返回的列表明显异常时不执行
+const DESTRUCTIVE_POLICIES: MissingMemoPolicy[] = ['move', 'trash'];
+// 受影响的笔记超过已同步笔记的这一比例时视为异常（受影响条数较少时不检查）
+const MAX_AFFECTED_RATIO = 0.5;
+const MIN_AFFECTED_TO_CHECK = 10;
+
+export interface ReconcileResult {
+    archived: number;
+    deleted: number;
+    // 因服务端列表异常而未处理时的原因
+    skippedReason?: string;
+}
+
+/**
+ * 找出服务端已归档或删除的 memo 对应的笔记，并按设置的策略处理
+ */
+export class ReconcileService {
+    constructor(
+        private app: App,
+        private syncDirectory: string,
+        private memosService: MemosService,
+        private fileService: FileService,
+        private policy: MissingMemoPolicy,
+        private syncArchived: boolean
+    ) {}
+
+    get archiveDirectory(): string {
+        return `${this.syncDirectory}/${ARCHIVE_FOLDER}`;
+    }
+
+    isInArchive(path: string): boolean {
+        return path.startsWith(`${this.archiveDirectory}/`);
+    }
+
+    async reconcile(): Promise<ReconcileResult> {
+        const result: ReconcileResult = { archived: 0, deleted: 0 };
+        if (this.policy === 'keep') {
+            return result;
+        }
+
+        const [normalNames, archivedNames] = await Promise.all([
+            this.memosService.fetchMemoNames('NORMAL'),
+            this.memosService.fetchMemoNames('ARCHIVED')
+        ]);
+        const syncedMemos = await this.fileService.getSyncedMemos();
+
+        const missing: Array<[string, string]> = [];
+        for (const [memoName, path] of syncedMemos) {
+            if (normalNames.has(memoName)) {
+                continue;
+            }
+            if (archivedNames.has(memoName) && this.syncArchived && this.isInArchive(path)) {
+                // 同步下来的归档 memo，本就位于归档目录
+                continue;
+            }
+            missing.push([memoName, path]);
+        }
+
+        // 令牌权限不足或代理返回空列表时，不能据此移走所有笔记
+        if (DESTRUCTIVE_POLICIES.includes(this.policy) && missing.length > 0) {
+            if (normalNames.size === 0) {
+                result.skippedReason = '服务端没有返回任何 memo，已跳过处理';
+            } else if (missing.length >= MIN_AFFECTED_TO_CHECK && missing.length > syncedMemos.size * MAX_AFFECTED_RATIO) {
+                result.skippedReason = `${missing.length}/${syncedMemos.size} 条笔记在服务端找不到，比例异常，已跳过处理`;
+            }
+            if (result.skippedReason) {
+                console.warn('跳过处理已归档/删除的 memo:', result.skippedReason);
+                return result;
+            }
+        }
+
+        for (const [memoName, path] of missing) {
+            const isArchived = archivedNames.has(memoName);
+            console.log(`Memo ${memoName} 已在服务端${isArchived ? '归档' : '删除'}: ${path}`);
+            try {
+                if (await this.applyPolicy(path)) {
+                    if (isArchived) {
+                        result.archived++;
+                    } else {
+                        result.deleted++;
+                    }
+                }
+            } catch (error) {
+                console.error(`处理已归档/删除的 memo ${memoName} 失败:`, error);
+            }
+        }
+
+        return result;
+    }
+
+    // 返回是否对笔记做了处理
+    private async applyPolicy(path: string): Promise<boolean> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            return false;
+        }
+
+        switch (this.policy) {
+            case 'mark': {
+                if (this.fileService.isMarkedArchived(await this.app.vault.read(file))) {
+                    return false;
+                }
+                await this.fileService.markArchived(path);
+                return true;
+            }
+            case 'move': {
+                if (this.isInArchive(path)) {
+                    return false;
+                }
+                const relativePath = path.slice(this.syncDirectory.length + 1);
+                const targetPath = `${this.archiveDirectory}/${relativePath}`;
+                await ensureDirectoryExists(this.app.vault.adapter, getParentPath(targetPath));
+                // 通过 fileManager 移动，Obsidian 会同时更新指向该笔记的链接
+                await this.app.fileManager.renameFile(file, targetPath);
+                return true;
+            }
+            case 'trash': {
+                await this.app.vault.trash(file, false);
+                return true;
+            }
+            default:
+                return false;
+        }
+    }
+}
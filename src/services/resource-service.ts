@@ -0,0 +1,149 @@
+import { TFile } from 'obsidian';
+import type { App } from 'obsidian';
+import type { MemoResource, ResourceLinkStyle, ResourceLocation } from '../models/settings';
+import type { PluginState } from '../models/state';
+import type { MemosService } from './memos-service';
+import type { Limiter } from '../utils/concurrency';
+import { createLimiter } from '../utils/concurrency';
+import { hashBuffer } from '../utils/hash';
+import { ensureDirectoryExists, getParentPath, getRelativePath, sanitizeFileName } from '../utils/path';
+
+/**
+ * 管理 memo 的资源文件：按 resource name 与内容哈希去重，已有的文件不再重复下载
+ */
+export class ResourceService {
+    // 正在获取的资源，多个 memo 共用同一资源时只下载一次
+    private pending = new Map<string, Promise<string | null>>();
+
+    constructor(
+        private app: App,
+        private syncDirectory: string,
+        private memosService: MemosService,
+        private state: PluginState,
+        private location: ResourceLocation = 'note',
+        private folder: string = '',
+        private linkStyle: ResourceLinkStyle = 'markdown',
+        private downloadLimiter: Limiter = createLimiter(1),
+        // 多个服务器共用资源文件夹时各自的子目录，resource name 只在同一服务器内唯一
+        private folderNamespace: string = ''
+    ) {}
+
+    private getLocalFileName(resource: MemoResource): string {
+        return `${resource.name.split('/').pop()}_${sanitizeFileName(resource.filename)}`;
+    }
+
+    // 固定位置的资源路径；使用 Obsidian 附件设置时返回 null，由 Obsidian 分配
+    private getFixedPath(resource: MemoResource, noteDir: string): string | null {
+        switch (this.location) {
+            case 'folder':
+                if (!this.folder) {
+                    return `${this.syncDirectory}/resources/${this.getLocalFileName(resource)}`;
+                }
+                return this.folderNamespace
+                    ? `${this.folder}/${this.folderNamespace}/${this.getLocalFileName(resource)}`
+                    : `${this.folder}/${this.getLocalFileName(resource)}`;
+            case 'vault':
+                return null;
+            default:
+                return `${noteDir}/resources/${this.getLocalFileName(resource)}`;
+        }
+    }
+
+    private async exists(path: string): Promise<boolean> {
+        return this.app.vault.adapter.exists(path);
+    }
+
+    private async findByHash(hash: string): Promise<string | null> {
+        for (const entry of Object.values(this.state.resources)) {
+            if (entry.hash === hash && await this.exists(entry.path)) {
+                return entry.path;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 获取资源的本地路径。已记录或已存在的文件直接复用，否则下载；内容相同的资源共用同一个文件
+     */
+    async getResource(resource: MemoResource, noteDir: string, notePath: string): Promise<string | null> {
+        let pending = this.pending.get(resource.name);
+        if (!pending) {
+            pending = this.fetchResource(resource, noteDir, notePath);
+            this.pending.set(resource.name, pending);
+            const clear = () => this.pending.delete(resource.name);
+            pending.then(clear, clear);
+        }
+        return pending;
+    }
+
+    private async fetchResource(resource: MemoResource, noteDir: string, notePath: string): Promise<string | null> {
+        const known = this.state.resources[resource.name];
+        if (known && await this.exists(known.path)) {
+            return known.path;
+        }
+
+        const fixedPath = this.getFixedPath(resource, noteDir);
+        if (fixedPath && await this.exists(fixedPath)) {
+            const hash = await hashBuffer(await this.app.vault.adapter.readBinary(fixedPath));
+            this.state.resources[resource.name] = { path: fixedPath, hash };
+            return fixedPath;
+        }
+
+        const data = await this.downloadLimiter(() => this.memosService.downloadResource(resource));
+        if (!data) {
+            return null;
+        }
+
+        const hash = await hashBuffer(data);
+        let path = await this.findByHash(hash);
+        if (path) {
+            console.log(`资源 ${resource.name} 与已有文件相同，复用 ${path}`);
+        } else {
+            path = fixedPath || await this.app.fileManager.getAvailablePathForAttachment(this.getLocalFileName(resource), notePath);
+            await ensureDirectoryExists(this.app.vault.adapter, getParentPath(path));
+            await this.app.vault.adapter.writeBinary(path, data);
+        }
+
+        this.state.resources[resource.name] = { path, hash };
+        return path;
+    }
+
+    /**
+     * 重新下载本地文件已被删除的资源，写回原来的路径，笔记中的链接不用修改
+     */
+    async restoreMissing(resources: MemoResource[]): Promise<{ restored: number; failed: number }> {
+        const missing: Array<[MemoResource, string]> = [];
+        for (const resource of resources) {
+            const known = this.state.resources[resource.name];
+            if (known && !(await this.exists(known.path)) && !missing.some(([item]) => item.name === resource.name)) {
+                missing.push([resource, known.path]);
+            }
+        }
+
+        const results = await Promise.all(missing.map(async ([resource, path]) => {
+            const data = await this.downloadLimiter(() => this.memosService.downloadResource(resource));
+            if (!data) {
+                return false;
+            }
+            await ensureDirectoryExists(this.app.vault.adapter, getParentPath(path));
+            await this.app.vault.adapter.writeBinary(path, data);
+            this.state.resources[resource.name] = { path, hash: await hashBuffer(data) };
+            return true;
+        }));
+        const restored = results.filter(Boolean).length;
+        return { restored, failed: results.length - restored };
+    }
+
+    /**
+     * 笔记中引用资源的链接，embed 为 true 时嵌入显示
+     */
+    formatLink(path: string, notePath: string, label: string, embed: boolean): string {
+        const prefix = embed ? '!' : '';
+        if (this.linkStyle === 'wikilink') {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            const linktext = file instanceof TFile ? this.app.metadataCache.fileToLinktext(file, notePath) : path;
+            return `${prefix}[[${linktext}]]`;
+        }
+        return `${prefix}[${label}](${getRelativePath(notePath, path)})`;
+    }
+}
@@ -0,0 +1,161 @@
+import type { ServerProfile } from '../models/settings';
+import { getNextCronTime, parseCron } from '../utils/cron';
+
+// 一次同步的结果；busy 表示已有同步在进行，本次没有执行
+export type SyncOutcome = 'success' | 'error' | 'cancelled' | 'busy';
+
+// 检查是否有到期同步的间隔
+export const SCHEDULER_TICK_INTERVAL = 30 * 1000;
+
+// 窗口重新获得焦点时，距上次同步至少间隔这么久才再次同步
+const FOCUS_SYNC_MIN_INTERVAL = 5 * 60 * 1000;
+
+// 连续失败后的退避时间：从 5 分钟起每次翻倍，最长 6 小时
+const BACKOFF_BASE = 5 * 60 * 1000;
+const BACKOFF_MAX = 6 * 60 * 60 * 1000;
+
+interface ProfileSchedule {
+    // 下一次自动同步的时间，null 表示不自动同步
+    nextRunAt: number | null;
+    // 本次运行期间最后一次自动或手动触发同步的时间
+    lastRunAt: number;
+    failures: number;
+}
+
+/**
+ * 按各服务器的同步计划触发同步：固定间隔、cron 表达式、启动时和窗口获得焦点时。
+ * 同一时间只运行一个同步，连续失败时按指数退避推迟下一次同步
+ */
+export class SchedulerService {
+    private schedules = new Map<string, ProfileSchedule>();
+    private running = false;
+
+    constructor(
+        private getProfiles: () => ServerProfile[],
+        private getLastSyncTime: (profileId: string) => string,
+        private runSync: (profileId: string) => Promise<SyncOutcome>
+    ) {}
+
+    private getSchedule(profileId: string): ProfileSchedule {
+        let schedule = this.schedules.get(profileId);
+        if (!schedule) {
+            const lastSyncTime = this.getLastSyncTime(profileId);
+            schedule = { nextRunAt: null, lastRunAt: lastSyncTime ? new Date(lastSyncTime).getTime() : 0, failures: 0 };
+            this.schedules.set(profileId, schedule);
+        }
+        return schedule;
+    }
+
+    private getBackoff(failures: number): number {
+        return failures > 0 ? Math.min(BACKOFF_BASE * Math.pow(2, failures - 1), BACKOFF_MAX) : 0;
+    }
+
+    // 按同步计划计算下一次同步时间，失败后不早于退避结束
+    private computeNextRun(profile: ServerProfile, schedule: ProfileSchedule, now: number): number | null {
+        let next: number | null = null;
+        if (profile.syncFrequency === 'auto') {
+            next = Math.max(schedule.lastRunAt + profile.autoSyncInterval * 60 * 1000, now);
+        } else if (profile.syncFrequency === 'cron') {
+            try {
+                next = getNextCronTime(parseCron(profile.cronExpression), new Date(now))?.getTime() ?? null;
+            } catch (error) {
+                console.error(`服务器 ${profile.name} 的 cron 表达式无效:`, error);
+            }
+        }
+        if (next === null || schedule.failures === 0) {
+            return next;
+        }
+        return Math.max(next, schedule.lastRunAt + this.getBackoff(schedule.failures));
+    }
+
+    /**
+     * 设置修改后重新计算各服务器的下一次同步时间
+     */
+    reschedule() {
+        const now = Date.now();
+        const profiles = this.getProfiles();
+        for (const profileId of Array.from(this.schedules.keys())) {
+            if (!profiles.some(profile => profile.id === profileId)) {
+                this.schedules.delete(profileId);
+            }
+        }
+        for (const profile of profiles) {
+            const schedule = this.getSchedule(profile.id);
+            schedule.nextRunAt = this.computeNextRun(profile, schedule, now);
+        }
+    }
+
+    /**
+     * Obsidian 启动完成后同步开启了“启动时同步”的服务器
+     */
+    onStartup() {
+        this.reschedule();
+        this.requestSync(this.getProfiles().filter(profile => profile.syncOnStartup));
+    }
+
+    /**
+     * 窗口获得焦点时同步开启了“获得焦点时同步”且近期没有同步过的服务器
+     */
+    onFocus() {
+        const now = Date.now();
+        this.requestSync(this.getProfiles().filter(profile =>
+            profile.syncOnFocus && now - this.getSchedule(profile.id).lastRunAt >= FOCUS_SYNC_MIN_INTERVAL));
+    }
+
+    /**
+     * 记录一个服务器的同步结果（包括手动同步），自动同步从这次同步开始重新计时
+     */
+    recordRun(profileId: string, outcome: SyncOutcome) {
+        const profile = this.getProfiles().find(item => item.id === profileId);
+        if (!profile || outcome === 'busy') {
+            return;
+        }
+        const schedule = this.getSchedule(profileId);
+        schedule.lastRunAt = Date.now();
+        if (outcome === 'error') {
+            schedule.failures++;
+            console.log(`服务器 ${profile.name} 同步失败，${Math.round(this.getBackoff(schedule.failures) / 60000)} 分钟内不再自动同步`);
+        } else if (outcome === 'success') {
+            schedule.failures = 0;
+        }
+        schedule.nextRunAt = this.computeNextRun(profile, schedule, schedule.lastRunAt);
+    }
+
+    private requestSync(profiles: ServerProfile[]) {
+        if (profiles.length === 0) {
+            return;
+        }
+        const now = Date.now();
+        for (const profile of profiles) {
+            const schedule = this.getSchedule(profile.id);
+            // 退避期间不因启动或获得焦点而提前同步
+            if (now >= schedule.lastRunAt + this.getBackoff(schedule.failures)) {
+                schedule.nextRunAt = now;
+            }
+        }
+        this.tick();
+    }
+
+    /**
+     * 依次同步已到期的服务器，结果由同步过程通过 recordRun 记录。已有同步在进行时保持到期状态，下次检查时再试
+     */
+    async tick() {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        try {
+            for (const profile of this.getProfiles()) {
+                const schedule = this.getSchedule(profile.id);
+                if (schedule.nextRunAt === null || schedule.nextRunAt > Date.now()) {
+                    continue;
+                }
+                if (await this.runSync(profile.id) === 'busy') {
+                    break;
+                }
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+}
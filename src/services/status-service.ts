@@ -1,6 +1,6 @@
 import { Notice, setIcon } from 'obsidian';
 
-type SyncStatus = 'idle' | 'syncing' | 'error' | 'success';
+type SyncStatus = 'idle' | 'syncing' | 'cancelling' | 'cancelled' | 'error' | 'success';
 
 export class StatusService {
     private statusBarItem: HTMLElement;
@@ -9,7 +9,7 @@ export class StatusService {
     private progressCount = 0;
     private totalCount = 0;
 
-    constructor(statusBarItem: HTMLElement) {
+    constructor(statusBarItem: HTMLElement, private onCancel?: () => void) {
         this.statusBarItem = statusBarItem;
         this.updateStatusBar();
     }
@@ -26,6 +26,16 @@ export class StatusService {
                 text = `同步中${progress}${elapsed}`;
                 break;
             }
+            case 'cancelling': {
+                icon = 'loader';
+                text = '正在取消同步';
+                break;
+            }
+            case 'cancelled': {
+                icon = 'pause-circle';
+                text = '同步已取消';
+                break;
+            }
             case 'error': {
                 icon = 'alert-circle';
                 text = '同步失败';
@@ -45,6 +55,12 @@ export class StatusService {
         this.statusBarItem.empty();
         setIcon(this.statusBarItem.createSpan(), icon);
         this.statusBarItem.createSpan({ text: ` ${text}` });
+
+        if (this.currentStatus === 'syncing' && this.onCancel) {
+            const cancelButton = this.statusBarItem.createSpan({ cls: 'memos-sync-status-cancel', attr: { 'aria-label': '取消同步' } });
+            setIcon(cancelButton, 'x-circle');
+            cancelButton.addEventListener('click', () => this.onCancel?.());
+        }
     }
 
     startSync(totalItems: number) {
@@ -64,6 +80,22 @@ export class StatusService {
         }
     }
 
+    setCancelling() {
+        this.currentStatus = 'cancelling';
+        this.updateStatusBar();
+    }
+
+    setCancelled(message: string) {
+        this.currentStatus = 'cancelled';
+        this.updateStatusBar();
+        new Notice(message);
+
+        setTimeout(() => {
+            this.currentStatus = 'idle';
+            this.updateStatusBar();
+        }, 5000);
+    }
+
     setError(error: string) {
         this.currentStatus = 'error';
         this.updateStatusBar();
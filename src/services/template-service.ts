@@ -0,0 +1,202 @@
+import { TFile } from 'obsidian';
+import type { Vault } from 'obsidian';
+
+export type TemplateValue = string | number | boolean | Date | string[] | TemplateContext[] | null | undefined;
+
+export interface TemplateContext {
+    [key: string]: TemplateValue;
+}
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'var'; name: string; format?: string }
+    | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'each'; name: string; body: TemplateNode[] };
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+export function formatDate(date: Date, format: string): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const tokens: Record<string, string> = {
+        YYYY: String(date.getFullYear()),
+        YY: String(date.getFullYear()).slice(-2),
+        MM: pad(date.getMonth() + 1),
+        M: String(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        D: String(date.getDate()),
+        HH: pad(date.getHours()),
+        H: String(date.getHours()),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds())
+    };
+    return format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, token => tokens[token]);
+}
+
+/**
+ * 解析模板。支持：
+ * - {{name}}、{{created:YYYY-MM-DD}}（日期格式）
+ * - {{#if name}}...{{else}}...{{/if}}、{{#unless name}}...{{/unless}}
+ * - {{#each resources}}...{{/each}}，循环体内可直接使用每项的字段，{{this}} 表示当前项
+ */
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // 栈中记录尚未闭合的块以及当前写入的节点列表
+    const stack: Array<{ node: TemplateNode; target: TemplateNode[] }> = [];
+    let current = root;
+    let lastIndex = 0;
+    const tagPattern = /\{\{\s*([^}]*?)\s*\}\}/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(template)) !== null) {
+        if (match.index > lastIndex) {
+            current.push({ type: 'text', text: template.slice(lastIndex, match.index) });
+        }
+        lastIndex = match.index + match[0].length;
+
+        const tag = match[1];
+        const blockMatch = tag.match(/^#(if|unless|each)\s+(\w+)$/);
+        if (blockMatch) {
+            const [, keyword, name] = blockMatch;
+            const node: TemplateNode = keyword === 'each'
+                ? { type: 'each', name, body: [] }
+                : { type: 'if', name, negate: keyword === 'unless', then: [], otherwise: [] };
+            current.push(node);
+            stack.push({ node, target: current });
+            current = node.type === 'each' ? node.body : node.type === 'if' ? node.then : current;
+            continue;
+        }
+
+        if (tag === 'else') {
+            const top = stack[stack.length - 1];
+            if (!top || top.node.type !== 'if') {
+                throw new Error('模板中的 {{else}} 没有对应的 {{#if}}');
+            }
+            current = top.node.otherwise;
+            continue;
+        }
+
+        const closeMatch = tag.match(/^\/(if|unless|each)$/);
+        if (closeMatch) {
+            const top = stack.pop();
+            const expected = closeMatch[1] === 'each' ? 'each' : 'if';
+            if (!top || top.node.type !== expected) {
+                throw new Error(`模板中的 {{/${closeMatch[1]}}} 没有对应的开始标记`);
+            }
+            current = top.target;
+            continue;
+        }
+
+        const separator = tag.indexOf(':');
+        current.push(separator >= 0
+            ? { type: 'var', name: tag.slice(0, separator).trim(), format: tag.slice(separator + 1).trim() }
+            : { type: 'var', name: tag });
+    }
+
+    if (stack.length > 0) {
+        throw new Error('模板中存在未闭合的 {{#if}} 或 {{#each}}');
+    }
+    if (lastIndex < template.length) {
+        current.push({ type: 'text', text: template.slice(lastIndex) });
+    }
+    return root;
+}
+
+function lookup(scopes: TemplateContext[], name: string): TemplateValue {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        if (name in scopes[i]) {
+            return scopes[i][name];
+        }
+    }
+    return undefined;
+}
+
+function isTruthy(value: TemplateValue): boolean {
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    return Boolean(value);
+}
+
+function stringify(value: TemplateValue, format?: string): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (value instanceof Date) {
+        return formatDate(value, format || DEFAULT_DATE_FORMAT);
+    }
+    if (Array.isArray(value)) {
+        // 数组直接输出时：字符串以空格连接，对象取其 text 字段逐行输出
+        return (value as Array<string | TemplateContext>)
+            .map(item => typeof item === 'string' ? item : stringify(item.text))
+            .join(typeof value[0] === 'string' ? ' ' : '\n');
+    }
+    return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+    let output = '';
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.text;
+                break;
+            case 'var':
+                output += stringify(lookup(scopes, node.name), node.format);
+                break;
+            case 'if': {
+                const matched = isTruthy(lookup(scopes, node.name)) !== node.negate;
+                output += renderNodes(matched ? node.then : node.otherwise, scopes);
+                break;
+            }
+            case 'each': {
+                const items = lookup(scopes, node.name);
+                if (!Array.isArray(items)) {
+                    break;
+                }
+                (items as Array<string | TemplateContext>).forEach((item, index) => {
+                    const scope: TemplateContext = typeof item === 'string'
+                        ? { this: item }
+                        : { ...item, this: stringify(item.text) };
+                    scope.index = index + 1;
+                    output += renderNodes(node.body, [...scopes, scope]);
+                });
+                break;
+            }
+        }
+    }
+    return output;
+}
+
+export function renderTemplate(template: string, context: TemplateContext): string {
+    return renderNodes(parseTemplate(template), [context]);
+}
+
+/**
+ * 读取用户在库中指定的笔记模板
+ */
+export class TemplateService {
+    constructor(
+        private vault: Vault,
+        private templatePath: string
+    ) {}
+
+    get isEnabled(): boolean {
+        return Boolean(this.templatePath);
+    }
+
+    async loadTemplate(): Promise<string | null> {
+        if (!this.templatePath) {
+            return null;
+        }
+        const path = this.templatePath.endsWith('.md') ? this.templatePath : `${this.templatePath}.md`;
+        const file = this.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            throw new Error(`模板文件不存在: ${path}`);
+        }
+        return this.vault.cachedRead(file);
+    }
+
+    render(template: string, context: TemplateContext): string {
+        return renderTemplate(template, context);
+    }
+}
@@ -0,0 +1,100 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { ConflictResolution, ConflictService } from '../services/conflict-service';
+import { diffLines } from '../utils/diff';
+
+export class ConflictModal extends Modal {
+    constructor(
+        app: App,
+        private conflictService: ConflictService,
+        private memoName: string,
+        private onResolved?: () => void
+    ) {
+        super(app);
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('memos-sync-conflict-modal');
+
+        const conflict = this.conflictService.getConflict(this.memoName);
+        if (!conflict) {
+            contentEl.createEl('p', { text: '该冲突已解决' });
+            return;
+        }
+
+        const local = await this.conflictService.getLocalContent(this.memoName);
+
+        contentEl.createEl('h2', { text: '同步冲突' });
+        contentEl.createEl('p', {
+            text: `${conflict.path} 在 Obsidian 和 Memos 中都有修改（检测于 ${new Date(conflict.detectedAt).toLocaleString()}）`
+        });
+
+        const columns = contentEl.createDiv({ cls: 'memos-sync-diff-columns' });
+        this.renderColumn(columns, '基准版本', conflict.base, conflict.base);
+        this.renderColumn(columns, '本地版本', conflict.base, local);
+        this.renderColumn(columns, '服务端版本', conflict.base, conflict.remote);
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('保留本地')
+                .onClick(() => this.resolve('local')))
+            .addButton(button => button
+                .setButtonText('保留服务端')
+                .onClick(() => this.resolve('remote')))
+            .addButton(button => button
+                .setButtonText('两者都保留')
+                .onClick(() => this.resolve('both')))
+            .addButton(button => button
+                .setButtonText('手动合并')
+                .setCta()
+                .onClick(() => this.showMergeEditor(local)));
+    }
+
+    private renderColumn(containerEl: HTMLElement, title: string, base: string, text: string) {
+        const column = containerEl.createDiv({ cls: 'memos-sync-diff-column' });
+        column.createEl('h4', { text: title });
+        const pre = column.createEl('pre', { cls: 'memos-sync-diff' });
+        for (const line of diffLines(base, text)) {
+            pre.createDiv({
+                cls: `memos-sync-diff-line memos-sync-diff-${line.type}`,
+                text: line.text || ' '
+            });
+        }
+    }
+
+    private showMergeEditor(initialContent: string) {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '手动合并' });
+        contentEl.createEl('p', { text: '编辑合并后的内容，保存后将同时更新 Memos 和本地笔记' });
+
+        const textarea = contentEl.createEl('textarea', { cls: 'memos-sync-merge-editor' });
+        textarea.value = initialContent;
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('返回')
+                .onClick(() => this.onOpen()))
+            .addButton(button => button
+                .setButtonText('保存合并结果')
+                .setCta()
+                .onClick(() => this.resolve('merge', textarea.value)));
+    }
+
+    private async resolve(resolution: ConflictResolution, mergedContent?: string) {
+        try {
+            await this.conflictService.resolve(this.memoName, resolution, mergedContent);
+            new Notice('冲突已解决');
+            this.close();
+            this.onResolved?.();
+        } catch (error) {
+            console.error('解决冲突失败:', error);
+            new Notice(`解决冲突失败: ${error.message}`, 5000);
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,55 @@
+import { ItemView, Setting } from 'obsidian';
+import type { WorkspaceLeaf } from 'obsidian';
+import type { ConflictService } from '../services/conflict-service';
+import { ConflictModal } from './conflict-modal';
+
+export const VIEW_TYPE_CONFLICTS = 'memos-sync-conflicts';
+
+/**
+ * 未解决冲突的队列
+ */
+export class ConflictQueueView extends ItemView {
+    constructor(leaf: WorkspaceLeaf, private getConflictServices: () => ConflictService[]) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_CONFLICTS;
+    }
+
+    getDisplayText(): string {
+        return 'Memos 同步冲突';
+    }
+
+    getIcon(): string {
+        return 'git-compare';
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    render() {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.createEl('h4', { text: 'Memos 同步冲突' });
+
+        const conflicts = this.getConflictServices().flatMap(conflictService =>
+            conflictService.getConflicts().map(([memoName, conflict]) => ({ conflictService, memoName, conflict })));
+        if (conflicts.length === 0) {
+            container.createEl('p', { text: '没有未解决的冲突' });
+            return;
+        }
+
+        for (const { conflictService, memoName, conflict } of conflicts) {
+            new Setting(container)
+                .setName(conflict.path.split('/').pop() || conflict.path)
+                .setDesc(`${memoName} · ${new Date(conflict.detectedAt).toLocaleString()}`)
+                .addButton(button => button
+                    .setButtonText('处理')
+                    .onClick(() => {
+                        new ConflictModal(this.app, conflictService, memoName, () => this.render()).open();
+                    }));
+        }
+    }
+}
@@ -0,0 +1,164 @@
+import { ItemView, Setting } from 'obsidian';
+import type { WorkspaceLeaf } from 'obsidian';
+import type { FailedMemo, SyncRunRecord } from '../models/state';
+import { MAX_RETRY_ATTEMPTS } from '../models/state';
+import type { HistoryService } from '../services/history-service';
+import { SYNC_RUN_ITEM_LABELS, SYNC_RUN_STATUS_LABELS, formatRunSummary, getRunDuration } from '../services/history-service';
+
+export const VIEW_TYPE_SYNC_HISTORY = 'memos-sync-history';
+
+// 失败队列中的一条 memo
+export interface QueuedFailure {
+    profileName: string;
+    memoName: string;
+    path: string;
+    failure: FailedMemo;
+}
+
+/**
+ * 同步历史列表，点击某次同步查看详情
+ */
+export class SyncHistoryView extends ItemView {
+    private selectedRunId: string | null = null;
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        private getHistoryService: () => HistoryService,
+        private getFailures: () => QueuedFailure[] = () => []
+    ) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_SYNC_HISTORY;
+    }
+
+    getDisplayText(): string {
+        return 'Memos 同步历史';
+    }
+
+    getIcon(): string {
+        return 'history';
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    render() {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+
+        const run = this.selectedRunId ? this.getHistoryService().getRun(this.selectedRunId) : undefined;
+        if (run) {
+            this.renderRun(container, run);
+        } else {
+            this.renderList(container);
+        }
+    }
+
+    private renderList(container: HTMLElement) {
+        container.createEl('h4', { text: 'Memos 同步历史' });
+        this.renderFailures(container);
+
+        const runs = this.getHistoryService().getRuns();
+        if (runs.length === 0) {
+            container.createEl('p', { text: '还没有同步记录' });
+            return;
+        }
+
+        for (const run of runs) {
+            const setting = new Setting(container)
+                .setName(`${new Date(run.startedAt).toLocaleString()} · ${run.profileName} · ${SYNC_RUN_STATUS_LABELS[run.status]}`)
+                .setDesc(formatRunSummary(run))
+                .addButton(button => button
+                    .setButtonText('详情')
+                    .onClick(() => {
+                        this.selectedRunId = run.id;
+                        this.render();
+                    }));
+            if (run.status === 'error') {
+                setting.settingEl.addClass('memos-sync-history-error');
+            }
+        }
+    }
+
+    // 等待重试的 memo，达到重试次数上限的不再自动重试
+    private renderFailures(container: HTMLElement) {
+        const failures = this.getFailures();
+        if (failures.length === 0) {
+            return;
+        }
+        container.createEl('h5', { text: `失败队列（${failures.length}）` });
+        container.createEl('p', { text: `自动重试 ${MAX_RETRY_ATTEMPTS} 次仍失败的 memo 不再自动重试，可运行“重试同步失败的 memo”命令手动重试` });
+        const items = container.createEl('ul', { cls: 'memos-sync-history-details' });
+        for (const { profileName, memoName, path, failure } of failures) {
+            const exhausted = failure.attempts >= MAX_RETRY_ATTEMPTS;
+            const li = items.createEl('li', { cls: exhausted ? 'memos-sync-history-error' : '' });
+            this.renderTarget(li, path, memoName);
+            const stopped = exhausted ? '，已停止自动重试' : '';
+            li.createSpan({ text: `：${failure.reason}（${profileName}，已尝试 ${failure.attempts} 次${stopped}）` });
+        }
+    }
+
+    // 笔记路径可点击打开，没有笔记时显示 memo name
+    private renderTarget(li: HTMLElement, path: string, memoName: string) {
+        if (!path) {
+            li.createSpan({ text: memoName });
+            return;
+        }
+        const link = li.createEl('a', { text: path, cls: 'internal-link' });
+        link.addEventListener('click', (event) => {
+            event.preventDefault();
+            this.app.workspace.openLinkText(path, '', false);
+        });
+    }
+
+    private renderRun(container: HTMLElement, run: SyncRunRecord) {
+        new Setting(container)
+            .setName(`${run.profileName} · ${SYNC_RUN_STATUS_LABELS[run.status]}`)
+            .setHeading()
+            .addButton(button => button
+                .setButtonText('返回')
+                .onClick(() => {
+                    this.selectedRunId = null;
+                    this.render();
+                }));
+
+        const details = container.createEl('ul', { cls: 'memos-sync-history-details' });
+        details.createEl('li', { text: `开始时间：${new Date(run.startedAt).toLocaleString()}` });
+        details.createEl('li', { text: `结束时间：${new Date(run.finishedAt).toLocaleString()}（${getRunDuration(run)} 秒）` });
+        details.createEl('li', { text: formatRunSummary(run) });
+
+        if (run.errors.length > 0) {
+            container.createEl('h5', { text: '错误' });
+            const errors = container.createEl('ul', { cls: 'memos-sync-history-details' });
+            for (const error of run.errors) {
+                errors.createEl('li', { text: error, cls: 'memos-sync-history-error' });
+            }
+        }
+
+        if (run.newTags && run.newTags.length > 0) {
+            container.createEl('h5', { text: '新标签' });
+            container.createEl('p', { text: run.newTags.map(tag => `#${tag}`).join(' ') });
+        }
+
+        container.createEl('h5', { text: '处理的 memo' });
+        if (run.items.length === 0) {
+            container.createEl('p', { text: '没有新建、更新或失败的 memo' });
+            return;
+        }
+        const items = container.createEl('ul', { cls: 'memos-sync-history-details' });
+        for (const item of run.items) {
+            const li = items.createEl('li', { cls: item.status === 'failed' ? 'memos-sync-history-error' : '' });
+            li.createSpan({ text: `${SYNC_RUN_ITEM_LABELS[item.status]} ` });
+            this.renderTarget(li, item.path, item.memoName);
+            if (item.error) {
+                li.createSpan({ text: `：${item.error}` });
+            }
+            if (item.newTags) {
+                li.createSpan({ text: `（新标签：${item.newTags.map(tag => `#${tag}`).join(' ')}）` });
+            }
+        }
+    }
+}
@@ -0,0 +1,25 @@
+import { FuzzySuggestModal } from 'obsidian';
+import type { App } from 'obsidian';
+import type { ServerProfile } from '../models/settings';
+
+/**
+ * 选择要同步的 Memos 服务器
+ */
+export class ProfileSuggestModal extends FuzzySuggestModal<ServerProfile> {
+    constructor(app: App, private profiles: ServerProfile[], private onChoose: (profile: ServerProfile) => void) {
+        super(app);
+        this.setPlaceholder('选择要同步的服务器');
+    }
+
+    getItems(): ServerProfile[] {
+        return this.profiles;
+    }
+
+    getItemText(profile: ServerProfile): string {
+        return `${profile.name} (${profile.syncDirectory})`;
+    }
+
+    onChooseItem(profile: ServerProfile): void {
+        this.onChoose(profile);
+    }
+}
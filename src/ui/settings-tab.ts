@@ -1,10 +1,15 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
-import type { AIModelType, MemosPluginSettings } from '../models/settings';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
+import type { AIModelType, AITask, MemosApiVersion, MemosPluginSettings, MetadataFormat, MissingMemoPolicy, OutputMode, ResourceLinkStyle, ResourceLocation, ServerProfile, SyncFilters, SyncFrequency } from '../models/settings';
+import { DEFAULT_PROMPTS, DEFAULT_SETTINGS } from '../models/settings';
 import type MemosSyncPlugin from '../../main';
-import { GEMINI_MODELS, OPENAI_MODELS, OLLAMA_MODELS, MODEL_DESCRIPTIONS } from '../services/ai-service';
+import { GEMINI_MODELS, OPENAI_MODELS, CLAUDE_MODELS, OLLAMA_MODELS, MODEL_DESCRIPTIONS, CLAUDE_MAX_TEMPERATURE, DEFAULT_CLAUDE_BASE_URL, listCompatibleModels, parseHeaders } from '../services/ai-service';
+import { PROMPT_TASK_LABELS, PROMPT_TASK_VARIABLES } from '../services/prompt-registry';
+import { getNextCronTime, parseCron } from '../utils/cron';
 
 export class MemosSyncSettingTab extends PluginSettingTab {
     plugin: MemosSyncPlugin;
+    // 当前正在编辑的服务器
+    private selectedProfileId = '';
 
     constructor(app: App, plugin: MemosSyncPlugin) {
         super(app, plugin);
@@ -15,86 +20,268 @@ export class MemosSyncSettingTab extends PluginSettingTab {
         const { containerEl } = this;
         containerEl.empty();
 
+        const profiles = this.plugin.settings.profiles;
+        const profile = profiles.find(item => item.id === this.selectedProfileId) || profiles[0];
+        this.selectedProfileId = profile.id;
+        this.displayProfileSettings(containerEl, profile);
+        this.displayFilterSettings(containerEl, profile.filters);
+
         // 基本设置
         containerEl.createEl('h2', { text: '基本设置' });
-        
+
         new Setting(containerEl)
-            .setName('Memos API URL')
-            .setDesc('您的 Memos 服务器 API 地址')
+            .setName('同步条数')
+            .setDesc('每次同步的最大条目数。达到上限时同步游标不会前移，其余 memo 需调大后再同步')
             .addText(text => text
-                .setPlaceholder('例如：https://demo.usememos.com/api/v1')
-                .setValue(this.plugin.settings.memosApiUrl)
+                .setPlaceholder('例如：100')
+                .setValue(String(this.plugin.settings.syncLimit))
+                .onChange(async (value) => {
+                    const limit = Number.parseInt(value, 10);
+                    if (Number.isFinite(limit) && limit > 0) {
+                        this.plugin.settings.syncLimit = limit;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('最近同步天数')
+            .setDesc('“同步最近几天更新的 memo”命令拉取的天数，不受同步游标限制')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.recentSyncDays))
+                .setValue(String(this.plugin.settings.recentSyncDays))
+                .onChange(async (value) => {
+                    const days = Number.parseInt(value, 10);
+                    if (Number.isFinite(days) && days > 0) {
+                        this.plugin.settings.recentSyncDays = days;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('更新已同步的笔记')
+            .setDesc('Memos 中编辑过的内容会覆盖本地笔记（保持原文件路径不变）。关闭时已同步的笔记不会被修改')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.updateExistingMemos)
                 .onChange(async (value) => {
-                    this.plugin.settings.memosApiUrl = value;
+                    this.plugin.settings.updateExistingMemos = value;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('访问令牌')
-            .setDesc('您的 Memos API 访问令牌')
+            .setName('输出方式')
+            .setDesc('追加到日记时使用日记核心插件的目录与日期格式，每条 memo 以带时间的块写在指定标题下。该方式不支持双向同步和归档同步')
+            .addDropdown(dropdown => dropdown
+                .addOption('file', '每条 memo 一个笔记')
+                .addOption('daily', '追加到当天的日记')
+                .setValue(this.plugin.settings.outputMode)
+                .onChange(async (value: OutputMode) => {
+                    this.plugin.settings.outputMode = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.outputMode === 'daily') {
+            new Setting(containerEl)
+                .setName('日记中的标题')
+                .setDesc('memo 写在日记中该标题下，标题不存在时会追加到日记末尾')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.dailyNoteHeading)
+                    .setValue(this.plugin.settings.dailyNoteHeading)
+                    .onChange(async (value) => {
+                        this.plugin.settings.dailyNoteHeading = value.trim() || DEFAULT_SETTINGS.dailyNoteHeading;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('元数据格式')
+            .setDesc('Memo 属性的写入方式。Frontmatter 可被 Dataview、Bases 和属性面板查询')
+            .addDropdown(dropdown => dropdown
+                .addOption('callout', '笔记末尾的 Memo Properties callout')
+                .addOption('frontmatter', 'YAML frontmatter')
+                .addOption('both', '两者都写')
+                .setValue(this.plugin.settings.metadataFormat)
+                .onChange(async (value: MetadataFormat) => {
+                    this.plugin.settings.metadataFormat = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('目录规则')
+            .setDesc('新笔记在同步目录下的子目录，用 / 分隔多级。可用 {{YYYY}}、{{MM}}、{{DD}}、{{HH}}、{{mm}}、{{ss}}、{{uid}}、{{tag}}（第一个标签）、{{title}}、{{visibility}}，以及 {{created:YYYY-MM}} 等日期格式')
             .addText(text => text
-                .setPlaceholder('输入访问令牌')
-                .setValue(this.plugin.settings.memosAccessToken)
+                .setPlaceholder(DEFAULT_SETTINGS.folderPattern)
+                .setValue(this.plugin.settings.folderPattern)
                 .onChange(async (value) => {
-                    this.plugin.settings.memosAccessToken = value;
+                    this.plugin.settings.folderPattern = value.trim();
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('同步目录')
-            .setDesc('Memos 内容在 Obsidian 中的存储位置')
+            .setName('文件名规则')
+            .setDesc('新笔记的文件名（不含 .md），占位符与目录规则相同')
             .addText(text => text
-                .setPlaceholder('例如：memos')
-                .setValue(this.plugin.settings.syncDirectory)
+                .setPlaceholder(DEFAULT_SETTINGS.fileNamePattern)
+                .setValue(this.plugin.settings.fileNamePattern)
                 .onChange(async (value) => {
-                    this.plugin.settings.syncDirectory = value;
+                    this.plugin.settings.fileNamePattern = value.trim() || DEFAULT_SETTINGS.fileNamePattern;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('同步模式')
-            .setDesc('选择手动同步或自动同步')
+            .setName('按新规则移动笔记')
+            .setDesc(this.plugin.needsLayoutMigration
+                ? '目录或文件名规则已修改，已同步的笔记仍在原位置。点击按当前规则移动，指向这些笔记的链接会一并更新'
+                : '按当前规则移动已同步的笔记，指向这些笔记的链接会一并更新')
+            .addButton(button => button
+                .setButtonText('移动笔记')
+                .onClick(async () => {
+                    await this.plugin.migrateLayout();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('资源存放位置')
+            .setDesc('图片和附件的保存位置。已下载的资源按名称和内容去重，不会重复下载')
             .addDropdown(dropdown => dropdown
-                .addOption('manual', '手动同步')
-                .addOption('auto', '自动同步')
-                .setValue(this.plugin.settings.syncFrequency)
-                .onChange(async (value: 'manual' | 'auto') => {
-                    this.plugin.settings.syncFrequency = value;
+                .addOption('note', '笔记所在目录的 resources 子目录')
+                .addOption('folder', '统一的附件目录')
+                .addOption('vault', 'Obsidian 附件设置中的位置')
+                .setValue(this.plugin.settings.resourceLocation)
+                .onChange(async (value: ResourceLocation) => {
+                    this.plugin.settings.resourceLocation = value;
                     await this.plugin.saveSettings();
-                    // 重新渲染以显示/隐藏自动同步间隔设置
                     this.display();
                 }));
 
-        if (this.plugin.settings.syncFrequency === 'auto') {
+        if (this.plugin.settings.resourceLocation === 'folder') {
             new Setting(containerEl)
-                .setName('同步间隔')
-                .setDesc('自动同步的时间间隔（分钟）')
+                .setName('附件目录')
+                .setDesc('所有 memo 的资源统一存放的目录，默认服务器以外的服务器各用以其 ID 命名的子目录；留空时为各服务器同步目录下的 resources')
                 .addText(text => text
-                    .setPlaceholder('例如：30')
-                    .setValue(String(this.plugin.settings.autoSyncInterval))
+                    .setPlaceholder(`${profile.syncDirectory}/resources`)
+                    .setValue(this.plugin.settings.resourceFolder)
                     .onChange(async (value) => {
-                        const interval = Number.parseInt(value, 10);
-                        if (Number.isFinite(interval) && interval > 0) {
-                            this.plugin.settings.autoSyncInterval = interval;
+                        this.plugin.settings.resourceFolder = value.trim().replace(/\/+$/, '');
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('资源链接格式')
+            .setDesc('笔记中引用图片和附件的方式')
+            .addDropdown(dropdown => dropdown
+                .addOption('markdown', '相对路径的 Markdown 链接')
+                .addOption('wikilink', 'Wikilink（![[文件]]）')
+                .setValue(this.plugin.settings.resourceLinkStyle)
+                .onChange(async (value: ResourceLinkStyle) => {
+                    this.plugin.settings.resourceLinkStyle = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('笔记模板')
+            .setDesc('库中模板文件的路径，留空使用默认布局。支持 {{content}}、{{title}}、{{summary}}、{{tags}}、{{resources}}、{{id}}、{{created:YYYY-MM-DD}} 等占位符，以及 {{#if}}、{{#each resources}} 块。Memo 属性仍按元数据格式写入。双向同步只回写 {{content}} 标记之间的内容，模板中没有 {{content}} 时本地修改不会回写')
+            .addText(text => text
+                .setPlaceholder('例如：templates/memo.md')
+                .setValue(this.plugin.settings.templatePath)
+                .onChange(async (value) => {
+                    this.plugin.settings.templatePath = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('双向同步')
+            .setDesc('将同步目录中笔记正文的修改回写到 Memos（AI 生成内容和 Memo Properties 不会回写）。开启后建议执行一次全量重新同步以建立基准')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.twoWaySync)
+                .onChange(async (value) => {
+                    this.plugin.settings.twoWaySync = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('已归档/删除的 memo')
+            .setDesc('服务端已归档或删除的 memo，其本地笔记的处理方式。同步时每天最多核对一次，也可通过命令立即处理')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', '保留不动')
+                .addOption('mark', '标记 Archived 属性')
+                .addOption('move', '移入 _archive 子目录')
+                .addOption('trash', '移入 Obsidian 回收站')
+                .setValue(this.plugin.settings.missingMemoPolicy)
+                .onChange(async (value: MissingMemoPolicy) => {
+                    this.plugin.settings.missingMemoPolicy = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('同步已归档的 memo')
+            .setDesc('将服务端已归档的 memo 同步到同步目录下的 _archive 子目录')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.syncArchivedMemos)
+                .onChange(async (value) => {
+                    this.plugin.settings.syncArchivedMemos = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const concurrencySettings: Array<['networkConcurrency' | 'downloadConcurrency' | 'aiConcurrency', string, string]> = [
+            ['networkConcurrency', 'API 并发数', '同时进行的 Memos API 请求数'],
+            ['downloadConcurrency', '下载并发数', '同时下载的图片和附件数'],
+            ['aiConcurrency', 'AI 并发数', '同时进行的 AI 请求数，遇到服务商限流时可调低']
+        ];
+        for (const [key, name, desc] of concurrencySettings) {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addText(text => text
+                    .setPlaceholder(String(DEFAULT_SETTINGS[key]))
+                    .setValue(String(this.plugin.settings[key]))
+                    .onChange(async (value) => {
+                        const concurrency = Number.parseInt(value, 10);
+                        if (Number.isFinite(concurrency) && concurrency > 0) {
+                            this.plugin.settings[key] = concurrency;
                             await this.plugin.saveSettings();
                         }
                     }));
         }
 
         new Setting(containerEl)
-            .setName('同步条数')
-            .setDesc('每次同步的最大条目数')
+            .setName('同步历史条数')
+            .setDesc('保留最近多少次同步的记录，可通过“打开同步历史”命令查看')
             .addText(text => text
-                .setPlaceholder('例如：100')
-                .setValue(String(this.plugin.settings.syncLimit))
+                .setPlaceholder(String(DEFAULT_SETTINGS.historyLimit))
+                .setValue(String(this.plugin.settings.historyLimit))
                 .onChange(async (value) => {
                     const limit = Number.parseInt(value, 10);
                     if (Number.isFinite(limit) && limit > 0) {
-                        this.plugin.settings.syncLimit = limit;
+                        this.plugin.settings.historyLimit = limit;
                         await this.plugin.saveSettings();
                     }
                 }));
 
+        new Setting(containerEl)
+            .setName('写入同步报告')
+            .setDesc('每次同步后在库中写入一篇 Markdown 同步报告，列出统计、错误和处理的 memo')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.syncReport)
+                .onChange(async (value) => {
+                    this.plugin.settings.syncReport = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.syncReport) {
+            new Setting(containerEl)
+                .setName('同步报告目录')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.syncReportFolder)
+                    .setValue(this.plugin.settings.syncReportFolder)
+                    .onChange(async (value) => {
+                        this.plugin.settings.syncReportFolder = value.trim().replace(/\/+$/, '') || DEFAULT_SETTINGS.syncReportFolder;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
         // AI 功能设置
         containerEl.createEl('h2', { text: 'AI 功能设置' });
 
@@ -117,6 +304,7 @@ export class MemosSyncSettingTab extends PluginSettingTab {
                 .setDesc('选择要使用的 AI 模型')
                 .addDropdown(dropdown => dropdown
                     .addOption('openai', 'OpenAI')
+                    .addOption('openai-compatible', 'OpenAI 兼容接口')
                     .addOption('gemini', 'Google Gemini')
                     .addOption('claude', 'Anthropic Claude')
                     .addOption('ollama', 'Ollama')
@@ -132,7 +320,9 @@ export class MemosSyncSettingTab extends PluginSettingTab {
             if (this.plugin.settings.ai.modelType !== 'ollama') {
                 new Setting(containerEl)
                     .setName('API 密钥')
-                    .setDesc('您的 AI 服务 API 密钥')
+                    .setDesc(this.plugin.settings.ai.modelType === 'openai-compatible'
+                        ? '接口的 API 密钥，本地服务不需要时留空'
+                        : '您的 AI 服务 API 密钥')
                     .addText(text => text
                         .setPlaceholder('输入 API 密钥')
                         .setValue(this.plugin.settings.ai.apiKey)
@@ -166,6 +356,19 @@ export class MemosSyncSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     }));
 
+            new Setting(containerEl)
+                .setName('标签别名')
+                .setDesc('每行一个“规范标签: 同义词1, 同义词2”。自动标签会优先沿用库中已有的标签，同义词统一换成规范标签')
+                .addTextArea(text => {
+                    text.inputEl.rows = 4;
+                    text.setPlaceholder('AI: ai, 人工智能, artificial-intelligence')
+                        .setValue(this.plugin.settings.ai.tagAliases)
+                        .onChange(async (value) => {
+                            this.plugin.settings.ai.tagAliases = value;
+                            await this.plugin.saveSettings();
+                        });
+                });
+
             new Setting(containerEl)
                 .setName('智能摘要')
                 .setDesc('自动生成内容摘要')
@@ -189,6 +392,321 @@ export class MemosSyncSettingTab extends PluginSettingTab {
                         this.plugin.settings.ai.summaryLanguage = value;
                         await this.plugin.saveSettings();
                     }));
+
+            this.displayPromptSettings(containerEl);
+        }
+    }
+
+    // 各 AI 任务的提示词模板、温度和最大 token 数，所有 AI 提供商共用
+    private displayPromptSettings(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: '提示词' });
+        const prompts = this.plugin.settings.ai.prompts;
+
+        for (const task of Object.keys(PROMPT_TASK_LABELS) as AITask[]) {
+            const prompt = prompts[task];
+            new Setting(containerEl)
+                .setName(PROMPT_TASK_LABELS[task])
+                .setHeading()
+                .addButton(button => button
+                    .setButtonText('恢复默认')
+                    .onClick(async () => {
+                        prompts[task] = { ...DEFAULT_PROMPTS[task] };
+                        await this.plugin.savePromptSettings();
+                        this.display();
+                    }));
+
+            new Setting(containerEl)
+                .setName('提示词模板')
+                .setDesc(`可用变量：${PROMPT_TASK_VARIABLES[task].map(name => `{{${name}}}`).join('、')}，支持 {{#if 变量}}...{{/if}}`)
+                .addTextArea(text => {
+                    text.inputEl.rows = 6;
+                    text.setValue(prompt.template)
+                        .onChange(async (value) => {
+                            prompt.template = value;
+                            await this.plugin.savePromptSettings();
+                        });
+                });
+
+            const isClaude = this.plugin.settings.ai.modelType === 'claude';
+            new Setting(containerEl)
+                .setName('温度')
+                .setDesc(isClaude
+                    ? `越高生成的内容越多样，越低越稳定。Claude 最高为 ${CLAUDE_MAX_TEMPERATURE}，更高的设置按 ${CLAUDE_MAX_TEMPERATURE} 处理`
+                    : '越高生成的内容越多样，越低越稳定')
+                .addSlider(slider => slider
+                    .setLimits(0, isClaude ? CLAUDE_MAX_TEMPERATURE : 2, 0.1)
+                    .setValue(prompt.temperature)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        prompt.temperature = value;
+                        await this.plugin.savePromptSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('最大 token 数')
+                .setDesc('生成内容的长度上限')
+                .addText(text => text
+                    .setPlaceholder(String(DEFAULT_PROMPTS[task].maxTokens))
+                    .setValue(String(prompt.maxTokens))
+                    .onChange(async (value) => {
+                        const maxTokens = Number.parseInt(value, 10);
+                        if (Number.isFinite(maxTokens) && maxTokens > 0) {
+                            prompt.maxTokens = maxTokens;
+                            await this.plugin.savePromptSettings();
+                        }
+                    }));
+        }
+    }
+
+    private displayProfileSettings(containerEl: HTMLElement, profile: ServerProfile) {
+        containerEl.createEl('h2', { text: '服务器' });
+
+        const profiles = this.plugin.settings.profiles;
+        new Setting(containerEl)
+            .setName('当前服务器')
+            .setDesc('每个服务器有独立的同步目录、筛选条件和同步计划，同步目录不能重叠')
+            .addDropdown(dropdown => {
+                for (const item of profiles) {
+                    dropdown.addOption(item.id, item.name);
+                }
+                dropdown
+                    .setValue(profile.id)
+                    .onChange((value) => {
+                        this.selectedProfileId = value;
+                        this.display();
+                    });
+            })
+            .addButton(button => button
+                .setButtonText('添加')
+                .onClick(async () => {
+                    this.selectedProfileId = (await this.plugin.addProfile()).id;
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('删除')
+                .setWarning()
+                .setDisabled(profiles.length <= 1)
+                .onClick(async () => {
+                    if (!confirm(`删除服务器「${profile.name}」？已同步的笔记会保留`)) {
+                        return;
+                    }
+                    await this.plugin.removeProfile(profile.id);
+                    this.selectedProfileId = '';
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('名称')
+            .addText(text => text
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    profile.name = value.trim() || profile.id;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Memos API URL')
+            .setDesc('您的 Memos 服务器地址，可以包含或省略 /api/v1')
+            .addText(text => text
+                .setPlaceholder('例如：https://demo.usememos.com/api/v1')
+                .setValue(profile.memosApiUrl)
+                .onChange(async (value) => {
+                    profile.memosApiUrl = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Memos 版本')
+            .setDesc('不同版本的 Memos API 返回格式不同。自动检测失败时可手动指定')
+            .addDropdown(dropdown => dropdown
+                .addOption('auto', '自动检测')
+                .addOption('0.22', '0.22 - 0.24')
+                .addOption('0.25', '0.25 及以上')
+                .setValue(profile.memosApiVersion)
+                .onChange(async (value: MemosApiVersion) => {
+                    profile.memosApiVersion = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('访问令牌')
+            .setDesc('您的 Memos API 访问令牌')
+            .addText(text => text
+                .setPlaceholder('输入访问令牌')
+                .setValue(profile.memosAccessToken)
+                .onChange(async (value) => {
+                    profile.memosAccessToken = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('同步目录')
+            .setDesc('该服务器的 Memos 内容在 Obsidian 中的存储位置')
+            .addText(text => text
+                .setPlaceholder('例如：memos')
+                .setValue(profile.syncDirectory)
+                .onChange(async (value) => {
+                    profile.syncDirectory = value.trim().replace(/\/+$/, '');
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('同步模式')
+            .setDesc('手动同步、按固定间隔自动同步或按 cron 表达式定时同步。连续失败时会逐渐推迟下一次自动同步')
+            .addDropdown(dropdown => dropdown
+                .addOption('manual', '手动同步')
+                .addOption('auto', '自动同步')
+                .addOption('cron', '按 cron 表达式同步')
+                .setValue(profile.syncFrequency)
+                .onChange(async (value: SyncFrequency) => {
+                    profile.syncFrequency = value;
+                    await this.plugin.saveSettings();
+                    // 重新渲染以显示/隐藏自动同步间隔设置
+                    this.display();
+                }));
+
+        if (profile.syncFrequency === 'auto') {
+            new Setting(containerEl)
+                .setName('同步间隔')
+                .setDesc('自动同步的时间间隔（分钟）')
+                .addText(text => text
+                    .setPlaceholder('例如：30')
+                    .setValue(String(profile.autoSyncInterval))
+                    .onChange(async (value) => {
+                        const interval = Number.parseInt(value, 10);
+                        if (Number.isFinite(interval) && interval > 0) {
+                            profile.autoSyncInterval = interval;
+                            await this.plugin.saveSettings();
+                        }
+                    }));
+        }
+
+        if (profile.syncFrequency === 'cron') {
+            const cronSetting = new Setting(containerEl)
+                .setName('cron 表达式')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.profiles[0].cronExpression)
+                    .setValue(profile.cronExpression)
+                    .onChange(async (value) => {
+                        profile.cronExpression = value.trim();
+                        updateCronDesc();
+                        await this.plugin.saveSettings();
+                    }));
+            const updateCronDesc = () => {
+                try {
+                    const next = getNextCronTime(parseCron(profile.cronExpression), new Date());
+                    cronSetting.setDesc(`分 时 日 月 星期，例如 0 9 * * 1-5 为工作日 9 点。下一次同步：${next ? next.toLocaleString() : '无'}`);
+                } catch (error) {
+                    cronSetting.setDesc(`表达式无效：${error.message}`);
+                }
+            };
+            updateCronDesc();
+        }
+
+        new Setting(containerEl)
+            .setName('启动时同步')
+            .setDesc('Obsidian 启动后同步一次该服务器')
+            .addToggle(toggle => toggle
+                .setValue(profile.syncOnStartup)
+                .onChange(async (value) => {
+                    profile.syncOnStartup = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('窗口获得焦点时同步')
+            .setDesc('切换回 Obsidian 时同步该服务器，距上次同步不足 5 分钟时跳过')
+            .addToggle(toggle => toggle
+                .setValue(profile.syncOnFocus)
+                .onChange(async (value) => {
+                    profile.syncOnFocus = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const { lastSyncTime } = this.plugin.getProfileState(profile.id).sync;
+        new Setting(containerEl)
+            .setName('全量重新同步')
+            .setDesc(lastSyncTime
+                ? `上次同步：${new Date(lastSyncTime).toLocaleString()}。之后只同步有更新的 memo，点击可重置该服务器的同步游标并重新拉取全部内容`
+                : '尚未同步过，下次同步将拉取全部内容')
+            .addButton(button => button
+                .setButtonText('全量重新同步')
+                .onClick(async () => {
+                    await this.plugin.fullResync(profile.id);
+                    this.display();
+                }));
+    }
+
+    private displayFilterSettings(containerEl: HTMLElement, filters: SyncFilters) {
+        containerEl.createEl('h2', { text: '同步筛选' });
+        containerEl.createEl('p', {
+            text: '只同步当前服务器中符合条件的 memo，留空的条件不生效。修改筛选条件后，之前被排除的 memo 需要执行一次全量重新同步才会拉取',
+            cls: 'setting-item-description'
+        });
+
+        const parseList = (value: string) => value.split(/[,，\s]+/).map(item => item.trim()).filter(Boolean);
+        const listSettings: Array<['includeTags' | 'excludeTags' | 'visibilities' | 'creators', string, string, string]> = [
+            ['includeTags', '包含标签', '只同步带有其中任一标签的 memo（包括子标签），用逗号分隔', '例如：work, reading'],
+            ['excludeTags', '排除标签', '带有其中任一标签的 memo 不同步', '例如：private'],
+            ['visibilities', '可见性', '只同步这些可见性的 memo：PUBLIC、PROTECTED、PRIVATE', '例如：PUBLIC, PROTECTED'],
+            ['creators', '创建者', '只同步这些用户创建的 memo', '例如：users/1']
+        ];
+        for (const [key, name, desc, placeholder] of listSettings) {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addText(text => text
+                    .setPlaceholder(placeholder)
+                    .setValue(filters[key].join(', '))
+                    .onChange(async (value) => {
+                        filters[key] = parseList(value);
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('置顶状态')
+            .addDropdown(dropdown => dropdown
+                .addOption('any', '不限')
+                .addOption('pinned', '只同步置顶的 memo')
+                .addOption('unpinned', '只同步未置顶的 memo')
+                .setValue(filters.pinned)
+                .onChange(async (value: SyncFilters['pinned']) => {
+                    filters.pinned = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const patternSettings: Array<['contentPattern' | 'excludeContentPattern', string, string]> = [
+            ['contentPattern', '内容匹配', '只同步内容匹配该正则表达式的 memo（不区分大小写）'],
+            ['excludeContentPattern', '内容排除', '内容匹配该正则表达式的 memo 不同步（不区分大小写）']
+        ];
+        for (const [key, name, desc] of patternSettings) {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addText(text => text
+                    .setValue(filters[key])
+                    .onChange(async (value) => {
+                        filters[key] = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        const dateSettings: Array<['createdAfter' | 'createdBefore', string, string]> = [
+            ['createdAfter', '创建时间起', '只同步该日期及之后创建的 memo'],
+            ['createdBefore', '创建时间止', '只同步该日期及之前创建的 memo']
+        ];
+        for (const [key, name, desc] of dateSettings) {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addText(text => text
+                    .setPlaceholder('YYYY-MM-DD')
+                    .setValue(filters[key])
+                    .onChange(async (value) => {
+                        filters[key] = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
         }
     }
 
@@ -265,17 +783,18 @@ export class MemosSyncSettingTab extends PluginSettingTab {
                             await this.plugin.saveSettings();
                         }));
             }
+        } else if (modelType === 'openai-compatible') {
+            this.displayCompatibleOptions(containerEl);
         } else if (modelType === 'claude') {
             new Setting(containerEl)
                 .setName('Claude 模型')
                 .setDesc('选择要使用的 Claude 模型')
                 .addDropdown(dropdown => {
-                    dropdown.addOption('claude-3-opus-20240229', 'Claude 3 Opus')
-                        .addOption('claude-3-sonnet-20240229', 'Claude 3 Sonnet')
-                        .addOption('claude-3-haiku-20240307', 'Claude 3 Haiku')
-                        .addOption('custom', '自定义模型 - 自定义模型名称');
+                    for (const [displayName, modelId] of Object.entries(CLAUDE_MODELS)) {
+                        dropdown.addOption(modelId, `${displayName} - ${MODEL_DESCRIPTIONS[modelId]}`);
+                    }
                     
-                    const currentModel = this.plugin.settings.ai.modelName || 'claude-3-opus-20240229';
+                    const currentModel = this.plugin.settings.ai.modelName || CLAUDE_MODELS['Claude 3.5 Sonnet'];
                     dropdown.setValue(currentModel);
                     
                     dropdown.onChange(async (value) => {
@@ -297,6 +816,17 @@ export class MemosSyncSettingTab extends PluginSettingTab {
                             await this.plugin.saveSettings();
                         }));
             }
+
+            new Setting(containerEl)
+                .setName('Claude API 地址')
+                .setDesc(`使用代理或兼容服务时修改（默认为 ${DEFAULT_CLAUDE_BASE_URL}）`)
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_CLAUDE_BASE_URL)
+                    .setValue(this.plugin.settings.ai.claudeBaseUrl)
+                    .onChange(async (value) => {
+                        this.plugin.settings.ai.claudeBaseUrl = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
         } else if (modelType === 'ollama') {
             // 添加 Ollama 服务地址设置
             new Setting(containerEl)
@@ -349,4 +879,80 @@ export class MemosSyncSettingTab extends PluginSettingTab {
             }
         }
     }
+
+    // OpenAI 兼容接口：地址、请求头，以及从 /models 获取或手动填写的模型
+    private displayCompatibleOptions(containerEl: HTMLElement) {
+        const ai = this.plugin.settings.ai;
+        new Setting(containerEl)
+            .setName('接口地址')
+            .setDesc('OpenAI 兼容接口的地址，通常以 /v1 结尾')
+            .addText(text => text
+                .setPlaceholder('例如：https://api.deepseek.com/v1')
+                .setValue(ai.compatibleBaseUrl)
+                .onChange(async (value) => {
+                    ai.compatibleBaseUrl = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('自定义请求头')
+            .setDesc('每行一个“名称: 值”，例如 Azure OpenAI 的 api-key')
+            .addTextArea(text => text
+                .setPlaceholder('api-key: xxxx')
+                .setValue(ai.compatibleHeaders)
+                .onChange(async (value) => {
+                    ai.compatibleHeaders = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('模型')
+            .setDesc(ai.compatibleModels.length > 0
+                ? `从接口获取到 ${ai.compatibleModels.length} 个模型`
+                : '从接口的 /models 获取可用模型，或选择自定义模型手动填写')
+            .addDropdown(dropdown => {
+                for (const model of ai.compatibleModels) {
+                    dropdown.addOption(model, model);
+                }
+                dropdown.addOption('custom', '自定义模型');
+                dropdown.setValue(ai.compatibleModels.includes(ai.modelName) ? ai.modelName : 'custom');
+                dropdown.onChange(async (value) => {
+                    ai.modelName = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                });
+            })
+            .addButton(button => button
+                .setButtonText('获取模型列表')
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    try {
+                        ai.compatibleModels = await listCompatibleModels(ai.compatibleBaseUrl, ai.apiKey, parseHeaders(ai.compatibleHeaders));
+                        if (!ai.compatibleModels.includes(ai.modelName) && ai.compatibleModels.length > 0) {
+                            ai.modelName = ai.compatibleModels[0];
+                        }
+                        await this.plugin.saveSettings();
+                        new Notice(`获取到 ${ai.compatibleModels.length} 个模型`);
+                        this.display();
+                    } catch (error) {
+                        console.error('获取模型列表失败:', error);
+                        new Notice(`获取模型列表失败: ${error.message}`);
+                        button.setDisabled(false);
+                    }
+                }));
+
+        if (!ai.compatibleModels.includes(ai.modelName)) {
+            new Setting(containerEl)
+                .setName('自定义模型名称')
+                .setDesc('输入接口支持的模型名称')
+                .addText(text => text
+                    .setPlaceholder('例如：deepseek-chat')
+                    .setValue(ai.customModelName)
+                    .onChange(async (value) => {
+                        ai.modelName = 'custom';
+                        ai.customModelName = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,35 @@
+// 限制同时执行的异步任务数，超出的任务排队等待
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(concurrency: number): Limiter {
+    const limit = Math.max(1, Math.floor(concurrency) || 1);
+    const queue: Array<() => void> = [];
+    let active = 0;
+
+    const next = () => {
+        if (active < limit && queue.length > 0) {
+            active++;
+            (queue.shift() as () => void)();
+        }
+    };
+
+    return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+            const done = () => {
+                active--;
+                next();
+            };
+            Promise.resolve().then(task).then(
+                value => {
+                    done();
+                    resolve(value);
+                },
+                error => {
+                    done();
+                    reject(error);
+                }
+            );
+        });
+        next();
+    });
+}
@@ -0,0 +1,99 @@
+// 解析后的 cron 表达式（分 时 日 月 星期），每个字段为允许的取值
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    days: Set<number>;
+    months: Set<number>;
+    weekdays: Set<number>;
+    // 日和星期都有限制时，满足其一即可
+    restrictsDay: boolean;
+    restrictsWeekday: boolean;
+}
+
+// 查找下一次执行时间的范围，覆盖只在闰年 2 月 29 日执行的表达式
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(field: string, min: number, max: number): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) {
+            throw new Error(`无效的 cron 字段: ${field}`);
+        }
+        let start = min;
+        let end = max;
+        if (match[2] !== undefined) {
+            start = Number.parseInt(match[2], 10);
+            // 只有起点和步长时，从起点一直到最大值
+            end = match[3] !== undefined ? Number.parseInt(match[3], 10) : match[4] !== undefined ? max : start;
+        }
+        const step = match[4] !== undefined ? Number.parseInt(match[4], 10) : 1;
+        if (start < min || end > max || start > end || step < 1) {
+            throw new Error(`无效的 cron 字段: ${field}`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * 解析五段式 cron 表达式，支持 *、列表、范围和步长，星期中 0 和 7 都表示周日。无效时抛出错误
+ */
+export function parseCron(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error('cron 表达式应为 5 段：分 时 日 月 星期');
+    }
+    const weekdays = parseField(fields[4], 0, 7);
+    if (weekdays.delete(7)) {
+        weekdays.add(0);
+    }
+    return {
+        minutes: parseField(fields[0], 0, 59),
+        hours: parseField(fields[1], 0, 23),
+        days: parseField(fields[2], 1, 31),
+        months: parseField(fields[3], 1, 12),
+        weekdays,
+        // 以 * 开头的字段（包括 */2 这样的步长）不算限制
+        restrictsDay: !fields[2].startsWith('*'),
+        restrictsWeekday: !fields[4].startsWith('*')
+    };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const dayMatches = schedule.days.has(date.getDate());
+    const weekdayMatches = schedule.weekdays.has(date.getDay());
+    if (schedule.restrictsDay && schedule.restrictsWeekday) {
+        return dayMatches || weekdayMatches;
+    }
+    return dayMatches && weekdayMatches;
+}
+
+/**
+ * after 之后（不含）第一个符合表达式的整分钟，找不到时返回 null
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date): Date | null {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    const limit = after.getTime() + MAX_SEARCH_MS;
+
+    while (date.getTime() <= limit) {
+        if (!schedule.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1);
+            date.setHours(0, 0, 0, 0);
+        } else if (!matchesDay(schedule, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+        } else if (!schedule.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+        } else if (!schedule.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+        } else {
+            return date;
+        }
+    }
+    return null;
+}
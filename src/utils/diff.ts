@@ -0,0 +1,48 @@
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+}
+
+/**
+ * 基于最长公共子序列的逐行对比
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const oldLines = oldText ? oldText.split('\n') : [];
+    const newLines = newText ? newText.split('\n') : [];
+    const m = oldLines.length;
+    const n = newLines.length;
+
+    // lcs[i][j]：oldLines[i..] 与 newLines[j..] 的最长公共子序列长度
+    const lcs: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+    for (let i = m - 1; i >= 0; i--) {
+        for (let j = n - 1; j >= 0; j--) {
+            lcs[i][j] = oldLines[i] === newLines[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < m && j < n) {
+        if (oldLines[i] === newLines[j]) {
+            result.push({ type: 'equal', text: oldLines[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            result.push({ type: 'removed', text: oldLines[i++] });
+        } else {
+            result.push({ type: 'added', text: newLines[j++] });
+        }
+    }
+    while (i < m) {
+        result.push({ type: 'removed', text: oldLines[i++] });
+    }
+    while (j < n) {
+        result.push({ type: 'added', text: newLines[j++] });
+    }
+    return result;
+}
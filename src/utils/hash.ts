@@ -0,0 +1,12 @@
+// 计算文本的 SHA-256 摘要（十六进制）
+export async function hashContent(content: string): Promise<string> {
+    return hashBuffer(new TextEncoder().encode(content));
+}
+
+// 计算二进制数据的 SHA-256 摘要（十六进制）
+export async function hashBuffer(data: ArrayBuffer | Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
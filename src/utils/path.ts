@@ -0,0 +1,58 @@
+import type { DataAdapter } from 'obsidian';
+
+export function sanitizeFileName(fileName: string): string {
+    let sanitized = fileName.replace(/^[\\/:*?"<>|#\s]+/, '');
+    
+    sanitized = sanitized
+        .replace(/\s+/g, ' ')
+        .replace(/[\\/:*?"<>|#]/g, '')
+        .trim();
+
+    return sanitized || 'untitled';
+}
+
+export function getParentPath(path: string): string {
+    return path.substring(0, path.lastIndexOf('/'));
+}
+
+/**
+ * 逐级创建目录，已存在的跳过。并发写入时目录可能已被同时创建，不视为错误
+ */
+export async function ensureDirectoryExists(adapter: DataAdapter, dirPath: string): Promise<void> {
+    let current = '';
+    for (const part of dirPath.split('/')) {
+        if (!part) {
+            continue;
+        }
+        current = current ? `${current}/${part}` : part;
+        if (!(await adapter.exists(current))) {
+            try {
+                await adapter.mkdir(current);
+            } catch (error) {
+                if (!(await adapter.exists(current))) {
+                    throw error;
+                }
+            }
+        }
+    }
+}
+
+// 从 fromPath 所在目录指向 toPath 的相对路径
+export function getRelativePath(fromPath: string, toPath: string): string {
+    const fromParts = fromPath.split('/');
+    const toParts = toPath.split('/');
+    fromParts.pop();
+
+    let i = 0;
+    while (i < fromParts.length && i < toParts.length && fromParts[i] === toParts[i]) {
+        i++;
+    }
+
+    const goBack = fromParts.length - i;
+    const relativePath = [
+        ...Array(goBack).fill('..'),
+        ...toParts.slice(i)
+    ].join('/');
+
+    return relativePath;
+}
@@ -0,0 +1,88 @@
+import { normalizeTags } from './tags';
+
+// 单条 AI 标签的最大长度，超过的多半是句子而不是标签
+const MAX_TAG_LENGTH = 40;
+const MAX_TAGS = 10;
+
+function stripCodeFence(text: string): string {
+    const match = text.trim().match(/^```[\w-]*\s*\n([\s\S]*?)\n?```$/);
+    return (match ? match[1] : text).trim();
+}
+
+/**
+ * 从模型回复中取出 JSON：兼容代码块包裹和前后多余的说明文字，解析失败返回 undefined
+ */
+export function extractJson(text: string): unknown {
+    const cleaned = stripCodeFence(text);
+    const candidates = [cleaned];
+    for (const [open, close] of [['{', '}'], ['[', ']']]) {
+        const start = cleaned.indexOf(open);
+        const end = cleaned.lastIndexOf(close);
+        if (start >= 0 && end > start) {
+            candidates.push(cleaned.slice(start, end + 1));
+        }
+    }
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch (error) {
+            // 继续尝试下一种截取方式
+        }
+    }
+    return undefined;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 解析摘要：优先取 JSON 中的 summary 字段，不是 JSON 时使用整段回复
+ */
+export function parseSummary(text: string): string {
+    const json = extractJson(text);
+    if (typeof json === 'string') {
+        return json.trim();
+    }
+    if (isRecord(json)) {
+        const summary = typeof json.summary === 'string'
+            ? json.summary
+            : Object.keys(json).map(key => json[key]).find(value => typeof value === 'string');
+        if (typeof summary === 'string') {
+            return summary.trim();
+        }
+    }
+    return stripCodeFence(text);
+}
+
+// 模型没有按 JSON 返回时，按行、逗号拆分，并去掉引导语和列表序号
+function splitTagText(text: string): string[] {
+    return stripCodeFence(text)
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !/[:：]$/.test(line))
+        .flatMap(line => line
+            .replace(/^(?:[-*•]|\d+[.)、])\s*/, '')
+            .replace(/^[^:：]{0,30}[:：]\s*/, '')
+            .split(/[,，、;；]|\s+(?=#)/));
+}
+
+/**
+ * 解析标签：优先取 JSON 中的 tags 数组，否则按文本拆分。结果规范化为合法的 Obsidian 标签
+ */
+export function parseTags(text: string): string[] {
+    const json = extractJson(text);
+    let items: unknown[] | undefined;
+    if (Array.isArray(json)) {
+        items = json;
+    } else if (isRecord(json)) {
+        const value = Array.isArray(json.tags)
+            ? json.tags
+            : Object.keys(json).map(key => json[key]).find(Array.isArray);
+        items = value as unknown[] | undefined;
+    }
+    const candidates = items
+        ? items.filter(item => typeof item === 'string' || typeof item === 'number').map(String)
+        : splitTagText(text);
+    return normalizeTags(candidates.filter(tag => tag.trim().length <= MAX_TAG_LENGTH)).slice(0, MAX_TAGS);
+}
@@ -0,0 +1,61 @@
+// 提取内容中的标签，兼容 #tag 与 #tag# 两种写法
+export function extractTags(content: string): string[] {
+    const tags = (content || '').match(/\#([^\#\s]+)(?:\#|\s|$)/g) || [];
+    return tags.map(tag => tag.replace(/^\#|\#$/g, '').trim());
+}
+
+// Obsidian 标签中不允许的空白和标点
+const INVALID_TAG_CHARS = /[\s~`!@#$%^&*()+=[\]{}|\\;:'",.<>?，。、；：？！“”‘’（）【】《》…·]+/g;
+
+/**
+ * 规范化为合法的 Obsidian 标签（不带 #）：空白转为 -，去掉不允许的标点。
+ * 不含非数字字符的标签无效，返回空字符串
+ */
+export function normalizeTag(raw: string): string {
+    const tag = raw.trim()
+        .replace(/^#+|#+$/g, '')
+        .trim()
+        .replace(/\s+/g, '-')
+        .replace(INVALID_TAG_CHARS, '')
+        .replace(/-{2,}/g, '-')
+        .replace(/\/{2,}/g, '/')
+        .replace(/^[-/]+|[-/]+$/g, '');
+    return /^[\d_\-/]*$/.test(tag) ? '' : tag;
+}
+
+/**
+ * 解析标签别名表，每行一个“规范标签: 同义词1, 同义词2”。返回小写同义词 -> 规范标签
+ */
+export function parseTagAliases(text: string): Map<string, string> {
+    const aliases = new Map<string, string>();
+    for (const line of text.split('\n')) {
+        const match = line.trim().match(/^([^:：]+)[:：](.*)$/);
+        const canonical = match ? normalizeTag(match[1]) : '';
+        if (!match || !canonical) {
+            continue;
+        }
+        for (const alias of match[2].split(/[,，、]/)) {
+            const tag = normalizeTag(alias);
+            if (tag) {
+                aliases.set(tag.toLowerCase(), canonical);
+            }
+        }
+    }
+    return aliases;
+}
+
+/**
+ * 规范化并去重（不区分大小写），丢弃无效标签
+ */
+export function normalizeTags(tags: string[]): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const raw of tags) {
+        const tag = normalizeTag(raw);
+        if (tag && !seen.has(tag.toLowerCase())) {
+            seen.add(tag.toLowerCase());
+            result.push(tag);
+        }
+    }
+    return result;
+}
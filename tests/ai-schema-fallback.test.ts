@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAIService } from '../src/services/ai-service';
+
+interface RecordedRequest {
+    url: string;
+    body: Record<string, unknown>;
+}
+
+interface MockResponse {
+    status: number;
+    body: unknown;
+}
+
+// 记录请求，按顺序返回预设的响应
+let requests: RecordedRequest[] = [];
+let responses: MockResponse[] = [];
+
+beforeEach(() => {
+    requests = [];
+    responses = [];
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL, init?: RequestInit) => {
+        requests.push({ url: input.toString(), body: JSON.parse(String(init?.body)) });
+        const response = responses.shift() || { status: 500, body: { error: '没有预设的响应' } };
+        return new Response(JSON.stringify(response.body), {
+            status: response.status,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('Ollama 结构化输出', () => {
+    const createOllama = () => createAIService('ollama', 'http://localhost:11434', 'llama3');
+    const ollamaResponse = (text: string): MockResponse => ({ status: 200, body: { response: text, done: true } });
+
+    it('支持时把 schema 作为 format 发送', async () => {
+        responses.push(ollamaResponse('{"tags": ["阅读"]}'));
+
+        expect(await createOllama().generateTags('今天读完了一本书')).toEqual(['阅读']);
+        expect(requests[0].body.format).toEqual(expect.objectContaining({ type: 'object', required: ['tags'] }));
+    });
+
+    it('旧版本拒绝 schema 格式时改为普通输出，之后不再发送 schema', async () => {
+        const service = createOllama();
+        responses.push(
+            { status: 400, body: { error: 'json: cannot unmarshal object into Go struct field GenerateRequest.format of type string' } },
+            ollamaResponse('标签：阅读，经济'),
+            ollamaResponse('{"summary": "要点"}')
+        );
+
+        expect(await service.generateTags('内容')).toEqual(['阅读', '经济']);
+        expect(await service.generateSummary('内容')).toBe('要点');
+
+        expect(requests).toHaveLength(3);
+        expect(requests[0].body.format).toBeDefined();
+        expect(requests[1].body.format).toBeUndefined();
+        expect(requests[2].body.format).toBeUndefined();
+    });
+
+    it('与 schema 无关的 400 照常重试并抛出', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const notFound: MockResponse = { status: 400, body: { error: 'model "llama3" not found, try pulling it first' } };
+        responses.push(notFound, notFound, notFound);
+
+        const result = expect(createOllama().generateSummary('内容')).rejects.toThrow('Ollama API error: 400');
+        await vi.runAllTimersAsync();
+        await result;
+
+        expect(requests).toHaveLength(3);
+        expect(requests.every(request => request.body.format !== undefined)).toBe(true);
+    });
+});
+
+describe('Gemini 结构化输出', () => {
+    const createGemini = () => createAIService('gemini', 'test-key', 'gemini-1.0-pro');
+    const geminiResponse = (text: string): MockResponse => ({
+        status: 200,
+        body: { candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }] }
+    });
+    const generationConfig = (request: RecordedRequest) => request.body.generationConfig as Record<string, unknown>;
+
+    it('支持时发送 responseSchema', async () => {
+        responses.push(geminiResponse('{"summary": "要点"}'));
+
+        expect(await createGemini().generateSummary('内容')).toBe('要点');
+        expect(generationConfig(requests[0]).responseMimeType).toBe('application/json');
+        expect(generationConfig(requests[0]).responseSchema).toEqual(expect.objectContaining({ required: ['summary'] }));
+    });
+
+    it('模型拒绝 responseSchema 时改为普通输出', async () => {
+        const service = createGemini();
+        responses.push(
+            {
+                status: 400,
+                body: { error: { code: 400, message: 'Json mode is not enabled for models/gemini-1.0-pro', status: 'INVALID_ARGUMENT' } }
+            },
+            geminiResponse('```json\n{"summary": "要点"}\n```'),
+            geminiResponse('- 阅读\n- 经济')
+        );
+
+        expect(await service.generateSummary('内容')).toBe('要点');
+        expect(await service.generateTags('内容')).toEqual(['阅读', '经济']);
+
+        expect(requests).toHaveLength(3);
+        expect(generationConfig(requests[0]).responseSchema).toBeDefined();
+        expect(generationConfig(requests[1]).responseSchema).toBeUndefined();
+        expect(generationConfig(requests[1]).responseMimeType).toBeUndefined();
+        expect(generationConfig(requests[2]).responseSchema).toBeUndefined();
+    });
+});
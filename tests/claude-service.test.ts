@@ -0,0 +1,190 @@
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAIService } from '../src/services/ai-service';
+import { PromptRegistry } from '../src/services/prompt-registry';
+import { DEFAULT_PROMPTS } from '../src/models/settings';
+
+// 测试中用到的 Messages API 请求字段
+interface MessagesRequestBody {
+    model: string;
+    max_tokens: number;
+    temperature?: number;
+    messages: Array<{ role: string; content: string }>;
+    tools?: Array<{ name: string; input_schema: unknown }>;
+    tool_choice?: { type: string; name: string };
+}
+
+interface RecordedRequest {
+    url: string;
+    headers: IncomingHttpHeaders;
+    body: MessagesRequestBody;
+}
+
+interface MockResponse {
+    status: number;
+    body: unknown;
+}
+
+// 模拟 Anthropic Messages API：记录收到的请求，按顺序返回预设的响应
+let server: Server;
+let baseUrl = '';
+let requests: RecordedRequest[] = [];
+let responses: MockResponse[] = [];
+
+function textResponse(text: string): MockResponse {
+    return { status: 200, body: { type: 'message', content: [{ type: 'text', text }] } };
+}
+
+function toolUseResponse(name: string, input: unknown): MockResponse {
+    return { status: 200, body: { type: 'message', content: [{ type: 'tool_use', id: 'toolu_01', name, input }] } };
+}
+
+function errorResponse(status: number, message: string): MockResponse {
+    return { status, body: { type: 'error', error: { type: 'api_error', message } } };
+}
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let data = '';
+        req.on('data', chunk => data += chunk);
+        req.on('end', () => {
+            requests.push({ url: req.url || '', headers: req.headers, body: JSON.parse(data) });
+            const response = responses.shift() || errorResponse(500, '没有预设的响应');
+            res.writeHead(response.status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(response.body));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+    requests = [];
+    responses = [];
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+function createClaude(prompts = new PromptRegistry(DEFAULT_PROMPTS)) {
+    return createAIService('claude', 'sk-ant-test', 'claude-3-5-haiku-latest', baseUrl, undefined, prompts);
+}
+
+// 重试间隔使用假时钟：等服务端收到第 count 个请求后，跳过下一次重试前的等待
+async function skipRetryDelay(count: number) {
+    await vi.waitFor(() => expect(requests).toHaveLength(count));
+    await vi.advanceTimersByTimeAsync(10000);
+}
+
+function useRetryTimers() {
+    // 只替换 setTimeout，本地服务端的网络 I/O 照常进行
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+}
+
+describe('ClaudeService', () => {
+    it('使用 x-api-key 与 anthropic-version 请求头调用 /v1/messages', async () => {
+        responses.push(toolUseResponse('memo_summary', { summary: '摘要' }));
+
+        await createClaude().generateSummary('今天读完了一本书');
+
+        expect(requests).toHaveLength(1);
+        const [request] = requests;
+        expect(request.url).toBe('/v1/messages');
+        expect(request.headers['x-api-key']).toBe('sk-ant-test');
+        expect(request.headers['anthropic-version']).toBe('2023-06-01');
+        expect(request.headers['content-type']).toBe('application/json');
+    });
+
+    it('请求体包含模型、提示词与强制调用的工具', async () => {
+        responses.push(toolUseResponse('memo_tags', { tags: ['阅读'] }));
+
+        await createClaude().generateTags('今天读完了一本书');
+
+        const { body } = requests[0];
+        expect(body.model).toBe('claude-3-5-haiku-latest');
+        expect(body.max_tokens).toBeGreaterThan(0);
+        expect(body.messages).toHaveLength(1);
+        expect(body.messages[0].role).toBe('user');
+        expect(body.messages[0].content).toContain('今天读完了一本书');
+        expect(body.tools).toEqual([expect.objectContaining({ name: 'memo_tags', input_schema: expect.any(Object) })]);
+        expect(body.tool_choice).toEqual({ type: 'tool', name: 'memo_tags' });
+    });
+
+    it('温度限制在 0 到 1 之间', async () => {
+        const prompts = new PromptRegistry({
+            ...DEFAULT_PROMPTS,
+            summary: { ...DEFAULT_PROMPTS.summary, temperature: 1.6 }
+        });
+        responses.push(toolUseResponse('memo_summary', { summary: '摘要' }));
+
+        await createClaude(prompts).generateSummary('内容');
+
+        expect(requests[0].body.temperature).toBe(1);
+    });
+
+    it('每周总结不带工具，直接使用文本响应', async () => {
+        responses.push({
+            status: 200,
+            body: { type: 'message', content: [{ type: 'text', text: '本周' }, { type: 'text', text: '读了两本书' }] }
+        });
+
+        const digest = await createClaude().generateWeeklyDigest(['读书', '散步']);
+
+        expect(digest).toBe('本周读了两本书');
+        expect(requests[0].body.tools).toBeUndefined();
+        expect(requests[0].body.tool_choice).toBeUndefined();
+    });
+
+    it('解析 tool_use 响应中的结构化结果', async () => {
+        responses.push(toolUseResponse('memo_tags', { tags: ['#阅读', '经济学'] }));
+
+        expect(await createClaude().generateTags('内容')).toEqual(['阅读', '经济学']);
+    });
+
+    it('没有 tool_use 时从文本响应中解析 JSON', async () => {
+        responses.push(textResponse('{"summary": "地方财政的逻辑"}'));
+
+        expect(await createClaude().generateSummary('内容')).toBe('地方财政的逻辑');
+    });
+
+    it('遇到 429 和 5xx 时重试', async () => {
+        useRetryTimers();
+        responses.push(
+            errorResponse(429, 'rate limited'),
+            errorResponse(529, 'overloaded'),
+            toolUseResponse('memo_summary', { summary: '重试后的摘要' })
+        );
+
+        const summary = createClaude().generateSummary('内容');
+        await skipRetryDelay(1);
+        await skipRetryDelay(2);
+
+        expect(await summary).toBe('重试后的摘要');
+        expect(requests).toHaveLength(3);
+    });
+
+    it('重试用尽后抛出带状态码和错误信息的异常', async () => {
+        useRetryTimers();
+        responses.push(
+            errorResponse(500, 'internal error'),
+            errorResponse(500, 'internal error'),
+            errorResponse(500, 'internal error')
+        );
+
+        const result = expect(createClaude().generateSummary('内容')).rejects.toThrow('Claude API error: 500 internal error');
+        await skipRetryDelay(1);
+        await skipRetryDelay(2);
+
+        await result;
+        expect(requests).toHaveLength(3);
+    });
+});
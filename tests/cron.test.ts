@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { getNextCronTime, parseCron } from '../src/utils/cron';
+
+// 测试中的时间均为本地时间
+function at(year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): Date {
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+}
+
+describe('parseCron', () => {
+    it('展开 *、列表、范围和步长', () => {
+        const schedule = parseCron('*/15 9-11 1,15 */6 1-5');
+        expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...schedule.hours]).toEqual([9, 10, 11]);
+        expect([...schedule.days]).toEqual([1, 15]);
+        expect([...schedule.months]).toEqual([1, 7]);
+        expect([...schedule.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('只有起点和步长时一直到最大值', () => {
+        expect([...parseCron('50/5 * * * *').minutes]).toEqual([50, 55]);
+        expect([...parseCron('0 0 25/3 * *').days]).toEqual([25, 28, 31]);
+    });
+
+    it('星期中的 7 视为周日', () => {
+        expect([...parseCron('0 9 * * 7').weekdays]).toEqual([0]);
+        expect([...parseCron('0 9 * * 5-7').weekdays].sort()).toEqual([0, 5, 6]);
+    });
+
+    it.each([
+        ['* * * * *', false, false],
+        ['0 9 1 * *', true, false],
+        ['0 9 * * 1', false, true],
+        ['0 9 1 * 1', true, true],
+        ['0 9 */2 * 1', false, true],
+        ['0 9 1 * */2', true, false],
+        ['0 9 */2 * */2', false, false]
+    ])('%s 的日与星期限制', (expression, restrictsDay, restrictsWeekday) => {
+        const schedule = parseCron(expression);
+        expect(schedule.restrictsDay).toBe(restrictsDay);
+        expect(schedule.restrictsWeekday).toBe(restrictsWeekday);
+    });
+
+    it.each([
+        ['段数不对', '0 9 * *'],
+        ['超出范围', '60 * * * *'],
+        ['范围颠倒', '0 9 * * 5-1'],
+        ['步长为 0', '*/0 * * * *'],
+        ['无法识别的字段', '0 9 * * MON'],
+        ['空表达式', '']
+    ])('%s时抛出错误', (_, expression) => {
+        expect(() => parseCron(expression)).toThrow();
+    });
+});
+
+describe('getNextCronTime', () => {
+    it.each([
+        ['每分钟', '* * * * *', at(2024, 6, 3, 10, 20, 30), at(2024, 6, 3, 10, 21)],
+        ['不含 after 本身', '30 10 * * *', at(2024, 6, 3, 10, 30), at(2024, 6, 4, 10, 30)],
+        ['当天稍后', '30 10 * * *', at(2024, 6, 3, 8, 0), at(2024, 6, 3, 10, 30)],
+        ['每 15 分钟', '*/15 * * * *', at(2024, 6, 3, 10, 46), at(2024, 6, 3, 11, 0)],
+        ['跨月', '0 0 1 * *', at(2024, 6, 15, 12, 0), at(2024, 7, 1, 0, 0)],
+        ['跨年', '0 0 1 1 *', at(2024, 6, 15, 12, 0), at(2025, 1, 1, 0, 0)],
+        ['工作日（周六之后是周一）', '0 9 * * 1-5', at(2024, 6, 8, 10, 0), at(2024, 6, 10, 9, 0)],
+        ['跳过没有 31 日的月份', '0 0 31 * *', at(2024, 4, 1, 0, 0), at(2024, 5, 31, 0, 0)],
+        ['闰年 2 月 29 日', '0 0 29 2 *', at(2024, 3, 1, 0, 0), at(2028, 2, 29, 0, 0)]
+    ])('%s', (_, expression, after, expected) => {
+        expect(getNextCronTime(parseCron(expression), after)).toEqual(expected);
+    });
+
+    it('日和星期都有限制时满足其一即可', () => {
+        // 2024-06-03 是周一
+        const schedule = parseCron('0 9 15 * 1');
+        expect(getNextCronTime(schedule, at(2024, 6, 3, 10, 0))).toEqual(at(2024, 6, 10, 9, 0));
+        expect(getNextCronTime(schedule, at(2024, 6, 10, 10, 0))).toEqual(at(2024, 6, 15, 9, 0));
+    });
+
+    it('日为步长时与星期同时满足才执行', () => {
+        // */2 表示奇数日；2024-06-03 是周一，下一个落在奇数日的周一是 6 月 17 日
+        const schedule = parseCron('0 9 */2 * 1');
+        expect(getNextCronTime(schedule, at(2024, 6, 3, 8, 0))).toEqual(at(2024, 6, 3, 9, 0));
+        expect(getNextCronTime(schedule, at(2024, 6, 3, 10, 0))).toEqual(at(2024, 6, 17, 9, 0));
+    });
+
+    it('不存在的日期返回 null', () => {
+        expect(getNextCronTime(parseCron('0 0 30 2 *'), at(2024, 1, 1))).toBeNull();
+    });
+});
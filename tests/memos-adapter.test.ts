@@ -0,0 +1,251 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+    MemosV022Adapter,
+    MemosV025Adapter,
+    compareVersions,
+    createMemosAdapter,
+    parseProfileVersion
+} from '../src/services/memos-adapter';
+import type { MemoResource } from '../src/models/settings';
+
+// 从真实服务端录制的响应
+function loadFixture(version: string, name: string): unknown {
+    return JSON.parse(readFileSync(join(__dirname, 'fixtures', `memos-${version}`, `${name}.json`), 'utf8'));
+}
+
+const ORIGIN = 'https://memos.example.com';
+
+describe('MemosV022Adapter', () => {
+    const adapter = new MemosV022Adapter();
+
+    it('解析列表响应中的 memo 与 resources', () => {
+        const page = adapter.parseListResponse(loadFixture('0.22', 'list-memos'));
+
+        expect(page.nextPageToken).toBe('CAIQAg==');
+        expect(page.memos).toHaveLength(2);
+        expect(page.memos[0]).toEqual({
+            name: 'memos/128',
+            uid: '6gMeWzrbXKBrpzjHcVPsWf',
+            content: '读完《置身事内》第三章 #reading #经济\n\n地方政府的土地财政逻辑比想象中清晰。',
+            visibility: 'PRIVATE',
+            createTime: '2024-06-02T01:15:42Z',
+            updateTime: '2024-06-02T03:48:10Z',
+            displayTime: '2024-06-02T01:15:42Z',
+            creator: 'users/1',
+            rowStatus: 'ACTIVE',
+            pinned: true,
+            resources: [
+                {
+                    name: 'resources/57',
+                    uid: 'kVqG7bN2fJp9YtHcR3wXzA',
+                    filename: 'book cover.png',
+                    type: 'image/png',
+                    size: '48213',
+                    createTime: '2024-06-02T01:15:30Z'
+                },
+                {
+                    name: 'resources/58',
+                    uid: 'Pm4sT8dLw2QeZb6XnY1cHj',
+                    filename: 'notes.pdf',
+                    type: 'application/pdf',
+                    size: '120394',
+                    createTime: '2024-06-02T01:15:35Z'
+                }
+            ],
+            tags: ['reading', '经济']
+        });
+        expect(page.memos[1].resources).toEqual([]);
+        expect(page.memos[1].visibility).toBe('PROTECTED');
+    });
+
+    it('最后一页的空 nextPageToken 视为没有下一页', () => {
+        const page = adapter.parseListResponse(loadFixture('0.22', 'list-memos-last-page'));
+        expect(page.nextPageToken).toBeUndefined();
+        expect(page.memos.map(memo => memo.name)).toEqual(['memos/3']);
+    });
+
+    it('拒绝不含 memos 数组的响应', () => {
+        expect(() => adapter.parseListResponse({ code: 16, message: 'Unauthenticated' })).toThrow('memos 数组');
+        expect(() => adapter.parseListResponse(null)).toThrow();
+        expect(() => adapter.parseMemo({ content: '没有 name' })).toThrow('不是 memo');
+    });
+
+    it('字段类型不符时使用默认值', () => {
+        const memo = adapter.parseMemo({
+            name: 'memos/9',
+            content: 42,
+            pinned: 'true',
+            tags: ['ok', 1, null],
+            resources: [{ name: 'resources/1', filename: 'a.png', size: 12 }, 'invalid']
+        });
+        expect(memo.uid).toBe('9');
+        expect(memo.content).toBe('');
+        expect(memo.visibility).toBe('PRIVATE');
+        expect(memo.rowStatus).toBe('NORMAL');
+        expect(memo.pinned).toBe(false);
+        expect(memo.tags).toEqual(['ok']);
+        expect(memo.resources).toEqual([
+            { name: 'resources/1', uid: '1', filename: 'a.png', type: '', size: '12', createTime: '' }
+        ]);
+    });
+
+    it('列表参数使用 rowStatus 与 limit', () => {
+        const params = adapter.buildListParams({ rowStatus: 'ARCHIVED', pageSize: 100 });
+        expect(params.toString()).toBe('rowStatus=ARCHIVED&limit=100');
+
+        const nextPage = adapter.buildListParams({
+            rowStatus: 'NORMAL',
+            pageSize: 50,
+            pageToken: 'CAIQAg==',
+            filter: 'pinned == true'
+        });
+        expect(nextPage.get('rowStatus')).toBe('NORMAL');
+        expect(nextPage.get('limit')).toBe('50');
+        expect(nextPage.get('pageToken')).toBe('CAIQAg==');
+        expect(nextPage.get('filter')).toBe('pinned == true');
+    });
+
+    it('使用 0.22 过滤表达式中的 visibilities 与 tag_search', () => {
+        expect(adapter.buildFilter({})).toBeUndefined();
+        expect(adapter.buildFilter({ visibilities: ['PUBLIC', 'PROTECTED'] })).toBe('visibilities == ["PUBLIC","PROTECTED"]');
+        expect(adapter.buildFilter({ tag: 'reading' })).toBe('tag_search == ["reading"]');
+        expect(adapter.buildFilter({
+            visibilities: ['PUBLIC'],
+            tag: 'reading'
+        })).toBe('visibilities == ["PUBLIC"] && tag_search == ["reading"]');
+    });
+
+    it('0.22 没有按更新时间和置顶筛选的变量，这两个条件不放入表达式', () => {
+        expect(adapter.buildFilter({ updatedAfter: 1717291542, pinned: true })).toBeUndefined();
+        expect(adapter.buildFilter({ updatedAfter: 1717291542, tag: 'reading' })).toBe('tag_search == ["reading"]');
+    });
+
+    it('资源下载地址使用 /file/resources/<id>/<filename>', () => {
+        const [cover] = adapter.parseListResponse(loadFixture('0.22', 'list-memos')).memos[0].resources;
+        expect(adapter.getResourceUrl(ORIGIN, cover)).toBe(`${ORIGIN}/file/resources/57/book%20cover.png`);
+    });
+});
+
+describe('MemosV025Adapter', () => {
+    const adapter = new MemosV025Adapter();
+
+    it('解析列表响应中的 state 与 attachments', () => {
+        const page = adapter.parseListResponse(loadFixture('0.25', 'list-memos'));
+
+        expect(page.nextPageToken).toBe('Cg9tZW1vcy9SdDZXY1kx');
+        expect(page.memos).toHaveLength(2);
+        const [meeting, walk] = page.memos;
+        expect(meeting.name).toBe('memos/Hn5KzVq2dXwR8sLtPb3YcM');
+        // 0.25 的 memo 不再返回 uid，取自 name
+        expect(meeting.uid).toBe('Hn5KzVq2dXwR8sLtPb3YcM');
+        expect(meeting.rowStatus).toBe('NORMAL');
+        expect(meeting.tags).toEqual(['work']);
+        expect(meeting.resources).toEqual([
+            {
+                name: 'attachments/Fz9QmT4wLc2XbR7nVs1KdP',
+                uid: 'Fz9QmT4wLc2XbR7nVs1KdP',
+                filename: 'meeting notes.pdf',
+                type: 'application/pdf',
+                size: '88410',
+                createTime: '2025-07-14T02:21:20Z'
+            }
+        ]);
+        expect(walk.pinned).toBe(true);
+        expect(walk.resources).toEqual([]);
+    });
+
+    it('单条 memo 的 state 转为 rowStatus', () => {
+        const memo = adapter.parseMemo(loadFixture('0.25', 'get-archived-memo'));
+        expect(memo.rowStatus).toBe('ARCHIVED');
+        expect(memo.updateTime).toBe('2025-06-30T21:05:13Z');
+    });
+
+    it('仍兼容 resources 与 rowStatus 字段', () => {
+        const memo = adapter.parseMemo({
+            name: 'memos/abc',
+            rowStatus: 'ARCHIVED',
+            resources: [{ name: 'resources/5', filename: 'a.png' }]
+        });
+        expect(memo.rowStatus).toBe('ARCHIVED');
+        expect(memo.resources.map(resource => resource.name)).toEqual(['resources/5']);
+    });
+
+    it('列表参数使用 state 与 pageSize', () => {
+        const params = adapter.buildListParams({ rowStatus: 'NORMAL', pageSize: 100, pageToken: 'Cg9tZW1vcy9SdDZXY1kx' });
+        expect(params.toString()).toBe('state=NORMAL&pageSize=100&pageToken=Cg9tZW1vcy9SdDZXY1kx');
+        expect(params.has('rowStatus')).toBe(false);
+        expect(params.has('limit')).toBe(false);
+    });
+
+    it('使用 0.25 过滤表达式中的 updated_ts、visibility、tag 与 pinned', () => {
+        expect(adapter.buildFilter({})).toBeUndefined();
+        expect(adapter.buildFilter({ updatedAfter: 1752459697 })).toBe('updated_ts > 1752459697');
+        expect(adapter.buildFilter({ visibilities: ['PUBLIC', 'PROTECTED'] })).toBe('visibility in ["PUBLIC","PROTECTED"]');
+        expect(adapter.buildFilter({ tag: 'work' })).toBe('tag in ["work"]');
+        expect(adapter.buildFilter({ pinned: true })).toBe('pinned == true');
+        expect(adapter.buildFilter({
+            updatedAfter: 1752459697,
+            visibilities: ['PRIVATE'],
+            tag: 'work',
+            pinned: true
+        })).toBe('updated_ts > 1752459697 && visibility in ["PRIVATE"] && tag in ["work"] && pinned == true');
+    });
+
+    it('附件下载地址使用 /file/attachments/<uid>/<filename>', () => {
+        const [notes] = adapter.parseListResponse(loadFixture('0.25', 'list-memos')).memos[0].resources;
+        expect(adapter.getResourceUrl(ORIGIN, notes)).toBe(`${ORIGIN}/file/attachments/Fz9QmT4wLc2XbR7nVs1KdP/meeting%20notes.pdf`);
+    });
+
+    it('旧版 resources 同样按 name 拼接下载地址', () => {
+        const resource: MemoResource = { name: 'resources/5', uid: '5', filename: 'a b.png', type: 'image/png', size: '1', createTime: '' };
+        expect(adapter.getResourceUrl(ORIGIN, resource)).toBe(`${ORIGIN}/file/resources/5/a%20b.png`);
+    });
+});
+
+describe('compareVersions', () => {
+    it('按数字逐段比较', () => {
+        expect(compareVersions('0.25.0', '0.24.3')).toBeGreaterThan(0);
+        expect(compareVersions('0.22.5', '0.25.0')).toBeLessThan(0);
+        expect(compareVersions('0.9.0', '0.10.0')).toBeLessThan(0);
+        expect(compareVersions('0.25', '0.25.0')).toBe(0);
+    });
+
+    it('忽略 v 前缀和无法解析的部分', () => {
+        expect(compareVersions('v0.25.1', '0.25.1')).toBe(0);
+        expect(compareVersions('0.25.0-rc1', '0.25.0')).toBeGreaterThanOrEqual(0);
+    });
+});
+
+describe('parseProfileVersion', () => {
+    it('读取录制的版本信息响应', () => {
+        expect(parseProfileVersion(loadFixture('0.22', 'workspace-profile'))).toBe('0.22.5');
+        expect(parseProfileVersion(loadFixture('0.25', 'instance-profile'))).toBe('0.25.0');
+    });
+
+    it('兼容嵌套在 profile 中的版本号', () => {
+        expect(parseProfileVersion({ profile: { version: '0.23.1' } })).toBe('0.23.1');
+    });
+
+    it('没有版本号时返回 null', () => {
+        expect(parseProfileVersion({ owner: 'users/1' })).toBeNull();
+        expect(parseProfileVersion({ version: '' })).toBeNull();
+        expect(parseProfileVersion({ version: 25 })).toBeNull();
+        expect(parseProfileVersion('0.25.0')).toBeNull();
+        expect(parseProfileVersion(null)).toBeNull();
+    });
+});
+
+describe('createMemosAdapter', () => {
+    it('按版本号选择适配器', () => {
+        expect(createMemosAdapter(parseProfileVersion(loadFixture('0.22', 'workspace-profile')))).toBeInstanceOf(MemosV022Adapter);
+        expect(createMemosAdapter(parseProfileVersion(loadFixture('0.25', 'instance-profile')))).toBeInstanceOf(MemosV025Adapter);
+        expect(createMemosAdapter('0.24.4').version).toBe('0.22');
+        expect(createMemosAdapter('0.26.0').version).toBe('0.25');
+    });
+
+    it('无法识别版本时按 0.22 处理', () => {
+        expect(createMemosAdapter(null).version).toBe('0.22');
+    });
+});
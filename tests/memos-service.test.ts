@@ -0,0 +1,141 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemosService } from '../src/services/memos-service';
+import { FilterService } from '../src/services/filter-service';
+import { DEFAULT_FILTERS } from '../src/models/settings';
+import type { MemosApiVersion, SyncFilters } from '../src/models/settings';
+
+// 从真实服务端录制的响应
+function loadFixture(version: string, name: string): unknown {
+    return JSON.parse(readFileSync(join(__dirname, 'fixtures', `memos-${version}`, `${name}.json`), 'utf8'));
+}
+
+const API_URL = 'https://memos.example.com/api/v1';
+
+// 录制的 0.25 列表响应带有下一页，下一页为空
+const LAST_PAGE = { status: 200, body: { memos: [] } };
+
+interface MockResponse {
+    status: number;
+    body: unknown;
+}
+
+// 记录请求的地址，按顺序返回预设的响应
+let requests: URL[] = [];
+let responses: MockResponse[] = [];
+
+beforeEach(() => {
+    requests = [];
+    responses = [];
+    vi.stubGlobal('fetch', vi.fn(async (input: string) => {
+        requests.push(new URL(input));
+        const response = responses.shift() || { status: 500, body: { message: '没有预设的响应' } };
+        return new Response(JSON.stringify(response.body), {
+            status: response.status,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+function createService(version: MemosApiVersion) {
+    return new MemosService(API_URL, 'token', 100, undefined, version);
+}
+
+function createFilter(filters: Partial<SyncFilters>) {
+    return new FilterService({ ...DEFAULT_FILTERS, ...filters });
+}
+
+describe('MemosService.fetchMemos', () => {
+    it('0.25 把筛选条件放入 filter 参数', async () => {
+        responses.push({ status: 200, body: loadFixture('0.25', 'list-memos') }, LAST_PAGE);
+
+        const { memos } = await createService('0.25').fetchMemos(undefined, 'NORMAL', 100, createFilter({ includeTags: ['work'] }));
+
+        expect(requests).toHaveLength(2);
+        expect(requests[0].pathname).toBe('/api/v1/memos');
+        expect(requests[0].searchParams.get('state')).toBe('NORMAL');
+        expect(requests[0].searchParams.get('filter')).toBe('tag in ["work"]');
+        expect(memos.map(memo => memo.name)).toEqual(['memos/Hn5KzVq2dXwR8sLtPb3YcM']);
+    });
+
+    it('0.22 把可见性放入 filter 参数', async () => {
+        responses.push(
+            { status: 200, body: loadFixture('0.22', 'list-memos') },
+            { status: 200, body: loadFixture('0.22', 'list-memos-last-page') }
+        );
+
+        const { memos } = await createService('0.22').fetchMemos(undefined, 'NORMAL', 100, createFilter({ visibilities: ['protected', 'public'] }));
+
+        expect(requests[0].searchParams.get('filter')).toBe('visibilities == ["PROTECTED","PUBLIC"]');
+        expect(requests[1].searchParams.get('pageToken')).toBe('CAIQAg==');
+        expect(requests[1].searchParams.get('filter')).toBe('visibilities == ["PROTECTED","PUBLIC"]');
+        expect(memos.map(memo => memo.name)).toEqual(['memos/127', 'memos/3']);
+    });
+
+    it('服务端拒绝过滤条件时发出警告，改为不带 filter 拉取并在客户端过滤', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        responses.push(
+            { status: 400, body: { code: 3, message: 'invalid filter: undeclared reference to \'tag\'' } },
+            { status: 200, body: loadFixture('0.25', 'list-memos') },
+            LAST_PAGE
+        );
+
+        const { memos } = await createService('0.25').fetchMemos(undefined, 'NORMAL', 100, createFilter({ includeTags: ['work'] }));
+
+        expect(requests).toHaveLength(3);
+        expect(requests[0].searchParams.get('filter')).toBe('tag in ["work"]');
+        expect(requests[1].searchParams.has('filter')).toBe(false);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0].join(' ')).toContain('tag in ["work"]');
+        expect(warn.mock.calls[0].join(' ')).toContain('invalid filter');
+        expect(memos.map(memo => memo.name)).toEqual(['memos/Hn5KzVq2dXwR8sLtPb3YcM']);
+    });
+
+    it('翻页后的 400 不再退回，直接报错', async () => {
+        responses.push(
+            { status: 200, body: loadFixture('0.22', 'list-memos') },
+            { status: 400, body: { message: 'invalid page token' } }
+        );
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await expect(createService('0.22').fetchMemos(undefined, 'NORMAL', 100, createFilter({ includeTags: ['reading'] })))
+            .rejects.toThrow('HTTP 400');
+        expect(requests).toHaveLength(2);
+    });
+
+    it('0.25 把同步游标作为 updated_ts 条件交给服务端', async () => {
+        responses.push({ status: 200, body: loadFixture('0.25', 'list-memos') }, LAST_PAGE);
+
+        const { memos } = await createService('0.25').fetchMemos('2025-07-14T00:00:00.000Z', 'NORMAL', 100, createFilter({ includeTags: ['work'] }));
+
+        expect(requests[0].searchParams.get('filter')).toBe('updated_ts > 1752451200 && tag in ["work"]');
+        expect(memos.map(memo => memo.name)).toEqual(['memos/Hn5KzVq2dXwR8sLtPb3YcM']);
+    });
+
+    it('0.25 没有其他筛选条件时只传同步游标', async () => {
+        responses.push(LAST_PAGE);
+
+        await createService('0.25').fetchMemos('2025-07-14T00:00:30.500Z');
+
+        expect(requests[0].searchParams.get('filter')).toBe('updated_ts > 1752451230');
+    });
+
+    it('0.22 没有按更新时间筛选的变量，同步游标在客户端过滤', async () => {
+        responses.push(
+            { status: 200, body: loadFixture('0.22', 'list-memos') },
+            { status: 200, body: loadFixture('0.22', 'list-memos-last-page') }
+        );
+
+        const { memos } = await createService('0.22').fetchMemos('2024-06-02T00:00:00.000Z');
+
+        expect(requests.every(request => !request.searchParams.has('filter'))).toBe(true);
+        expect(memos.map(memo => memo.name)).toEqual(['memos/128']);
+    });
+});
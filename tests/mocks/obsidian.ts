@@ -0,0 +1,13 @@
+// 测试用的 obsidian 替身，只提供被测模块在加载时用到的导出
+
+export class Notice {
+    constructor(public message: string, public timeout?: number) {}
+}
+
+export class TAbstractFile {
+    path = '';
+}
+
+export class TFile extends TAbstractFile {
+    extension = 'md';
+}
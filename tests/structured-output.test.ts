@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { extractJson, parseSummary, parseTags } from '../src/utils/structured-output';
+import { normalizeTag, normalizeTags } from '../src/utils/tags';
+
+describe('extractJson', () => {
+    it.each([
+        ['纯 JSON', '{"tags": ["阅读"]}', { tags: ['阅读'] }],
+        ['json 代码块', '```json\n{"tags": ["阅读"]}\n```', { tags: ['阅读'] }],
+        ['无语言标记的代码块', '```\n{"summary": "要点"}\n```', { summary: '要点' }],
+        ['前后有说明文字', '好的，结果如下：\n{"summary": "要点"}\n希望对你有帮助。', { summary: '要点' }],
+        ['前后有说明文字的数组', '标签是 ["阅读", "经济"] 这几个', ['阅读', '经济']],
+        ['JSON 字符串', '"只有一句话"', '只有一句话']
+    ])('%s', (_, text, expected) => {
+        expect(extractJson(text)).toEqual(expected);
+    });
+
+    it.each([
+        ['普通文本', '阅读, 经济'],
+        ['不完整的 JSON', '{"tags": ["阅读", '],
+        ['单引号 JSON', "{'tags': ['阅读']}"]
+    ])('%s 返回 undefined', (_, text) => {
+        expect(extractJson(text)).toBeUndefined();
+    });
+});
+
+describe('parseSummary', () => {
+    it.each([
+        ['JSON 中的 summary', '{"summary": "  地方财政的逻辑  "}', '地方财政的逻辑'],
+        ['代码块中的 JSON', '```json\n{"summary": "要点"}\n```', '要点'],
+        ['前后有说明文字', '摘要如下：{"summary": "要点"}', '要点'],
+        ['字段名不是 summary 时取第一个字符串', '{"result": "要点", "count": 1}', '要点'],
+        ['不是 JSON 时使用整段回复', '这是一段摘要。', '这是一段摘要。'],
+        ['无效 JSON 退回文本', '```\n{"summary": "要点"\n```', '{"summary": "要点"'],
+        ['JSON 中没有字符串时退回文本', '{"count": 1}', '{"count": 1}']
+    ])('%s', (_, text, expected) => {
+        expect(parseSummary(text)).toBe(expected);
+    });
+});
+
+describe('parseTags', () => {
+    it.each([
+        ['JSON 对象', '{"tags": ["阅读", "经济"]}', ['阅读', '经济']],
+        ['JSON 数组', '["阅读", "经济"]', ['阅读', '经济']],
+        ['代码块中的 JSON', '```json\n{"tags": ["阅读", "经济"]}\n```', ['阅读', '经济']],
+        ['前后有说明文字', '以下是标签：\n{"tags": ["阅读"]}\n以上。', ['阅读']],
+        ['字段名不是 tags 时取第一个数组', '{"labels": ["阅读", "经济"]}', ['阅读', '经济']],
+        ['JSON 中的 # 前缀', '{"tags": ["#阅读", "##经济"]}', ['阅读', '经济']],
+        ['JSON 中的数字与非字符串项', '{"tags": ["2024年", 42, null, {"a": 1}]}', ['2024年']],
+        ['逗号分隔', '阅读, 经济, 历史', ['阅读', '经济', '历史']],
+        ['全角逗号与顿号', '阅读，经济、历史', ['阅读', '经济', '历史']],
+        ['分号', '阅读；经济;历史', ['阅读', '经济', '历史']],
+        ['# 前缀以空格分隔', '#阅读 #经济 #历史', ['阅读', '经济', '历史']],
+        ['编号列表', '1. 阅读\n2) 经济\n3、历史', ['阅读', '经济', '历史']],
+        ['项目符号列表', '- 阅读\n* 经济\n• 历史', ['阅读', '经济', '历史']],
+        ['带引导语的列表', '以下是标签：\n- #阅读\n- #经济', ['阅读', '经济']],
+        ['同一行的引导语', '标签：阅读，经济', ['阅读', '经济']],
+        ['无效 JSON 退回文本拆分', '{"tags": ["阅读", "经济"', ['阅读', '经济']],
+        ['标签中的空格转为 -', '{"tags": ["machine learning"]}', ['machine-learning']],
+        ['不区分大小写去重', '{"tags": ["AI", "ai", "Ai"]}', ['AI']]
+    ])('%s', (_, text, expected) => {
+        expect(parseTags(text)).toEqual(expected);
+    });
+
+    it('丢弃过长的项', () => {
+        const sentence = '这是一句非常长的话而不是标签因为模型有时会把整段解释当成标签返回而超过长度上限的项应该被丢弃';
+        expect(parseTags(JSON.stringify({ tags: ['阅读', sentence] }))).toEqual(['阅读']);
+        expect(parseTags(`阅读，${sentence}`)).toEqual(['阅读']);
+    });
+
+    it('最多返回 10 个标签', () => {
+        const tags = Array.from({ length: 15 }, (_, i) => `标签${i}`);
+        expect(parseTags(JSON.stringify({ tags }))).toEqual(tags.slice(0, 10));
+    });
+});
+
+describe('normalizeTag', () => {
+    it.each([
+        ['#阅读', '阅读'],
+        ['##阅读#', '阅读'],
+        ['  阅读  ', '阅读'],
+        ['machine learning', 'machine-learning'],
+        ['machine  -  learning', 'machine-learning'],
+        ['读书笔记（2024）', '读书笔记2024'],
+        ['阅读。', '阅读'],
+        ['项目/进行中', '项目/进行中'],
+        ['//项目//进行中//', '项目/进行中'],
+        ['-阅读-', '阅读'],
+        ['2024', ''],
+        ['2024/06', ''],
+        ['###', ''],
+        ['', '']
+    ])('%s -> %s', (raw, expected) => {
+        expect(normalizeTag(raw)).toBe(expected);
+    });
+
+    it('normalizeTags 去掉无效标签并去重', () => {
+        expect(normalizeTags(['#阅读', '阅读', '2024', 'AI', 'ai'])).toEqual(['阅读', 'AI']);
+    });
+});
@@ -0,0 +1,11 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            // obsidian 包只有类型声明，测试中使用 tests/mocks 下的替身
+            obsidian: fileURLToPath(new URL("./tests/mocks/obsidian.ts", import.meta.url)),
+        },
+    },
+});